@@ -3,12 +3,25 @@ import fs from "fs/promises"
 
 const outfile = "src/index.compiled.js"
 
+// app shells allowed to register launch token keys
+const appShellOrigins = (process.env.SANDBOX_APP_SHELL_ORIGINS || "")
+    .split(",")
+    .map((origin) => origin.trim())
+    .filter((origin) => origin.length > 0)
+
+if (appShellOrigins.length < 1) {
+    console.warn("[SANDBOX_COMPILATION] SANDBOX_APP_SHELL_ORIGINS is not set, no app shell will be able to launch programs")
+}
+
 await esbuild.build({
     entryPoints: ["src/index.ts"],
     bundle: true,
     minify: true,
     outfile,
-    format: "esm"
+    format: "esm",
+    define: {
+        SANDBOX_APP_SHELL_ORIGINS: JSON.stringify(appShellOrigins)
+    }
 })
 
 const htmlTemplatePath = "src/template.html"
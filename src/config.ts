@@ -1,3 +1,21 @@
 export const SERVICE_WORKER_FILE = "mirror-sw.compiled.js"
 
-export const RUN_PROGRAM_PATHNAME = "/runProgram"
\ No newline at end of file
+export const RUN_PROGRAM_PATHNAME = "/runProgram"
+
+/**
+ * Injected at build time from the comma separated 
+ * SANDBOX_APP_SHELL_ORIGINS environment variable
+ */
+declare const SANDBOX_APP_SHELL_ORIGINS: ReadonlyArray<string> | undefined
+
+// origins of app shells allowed to register the launch token key
+export const APP_SHELL_ORIGINS: ReadonlyArray<string> = (
+    typeof SANDBOX_APP_SHELL_ORIGINS === "undefined" ? [] : SANDBOX_APP_SHELL_ORIGINS
+)
+
+// storage owned by the service worker that should
+// survive the storage wipe done when sandbox boots
+export const REQUEST_QUEUE_DATABASE = "sandbox-request-queue"
+export const LAUNCH_TOKEN_KEY_DATABASE = "sandbox-launch-token-key"
+export const PROGRAM_SESSION_DATABASE = "sandbox-program-sessions"
+export const WORKER_CACHE_NAME = "sandbox-worker-cache-v2"
@@ -1,5 +1,25 @@
+import {
+    LAUNCH_TOKEN_KEY_DATABASE, 
+    PROGRAM_SESSION_DATABASE,
+    REQUEST_QUEUE_DATABASE, 
+    WORKER_CACHE_NAME
+} from "./config"
+
+const PRESERVED_DATABASES: ReadonlyArray<string> = [
+    REQUEST_QUEUE_DATABASE,
+    LAUNCH_TOKEN_KEY_DATABASE,
+    // programs in other tabs may still be running
+    PROGRAM_SESSION_DATABASE
+]
+
+// worker cache is bounded, scoped per program and
+// revalidates entries of previous boots, so it is kept
+const PRESERVED_CACHES: ReadonlyArray<string> = [WORKER_CACHE_NAME]
+
 export async function deleteStorage(): Promise<boolean> {
-    const cacheKeys = await caches.keys()
+    const cacheKeys = (await caches.keys()).filter((key) => (
+        !PRESERVED_CACHES.includes(key)
+    ))
     const indexeddbKeys: string[] = []
     // as of writing this Firefox doesn't yet support this
     // api (althought it is a standard)
@@ -12,7 +32,9 @@ export async function deleteStorage(): Promise<boolean> {
             } 
         })()
         const databaseNames = databases.map((info) => info.name || "")
-        indexeddbKeys.push(...databaseNames.filter((name) => name.length > 0))
+        indexeddbKeys.push(...databaseNames.filter((name) => (
+            name.length > 0 && !PRESERVED_DATABASES.includes(name)
+        )))
     }
     await Promise.all([
         ...cacheKeys.map((key) => caches.delete(key)),
@@ -1,7 +1,85 @@
-import {RUN_PROGRAM_PATHNAME, SERVICE_WORKER_FILE} from "./config"
+import {wRpc} from "w-worker-rpc"
+import {APP_SHELL_ORIGINS, RUN_PROGRAM_PATHNAME, SERVICE_WORKER_FILE} from "./config"
 import {deleteStorage} from "./deleteStorage"
+import type {ServiceWorkerFunctions} from "./serviceWorkerFunctions"
+import {createBootTimer, waitForController} from "./lib/bootTimings"
+
+type LaunchTokenKeyMessage = {
+    type: "launch-token-key"
+    key: JsonWebKey
+}
+
+const isLaunchTokenKeyMessage = (data: unknown): data is LaunchTokenKeyMessage => {
+    return (
+        typeof data === "object"
+        && data !== null
+        && (data as LaunchTokenKeyMessage).type === "launch-token-key"
+        && typeof (data as LaunchTokenKeyMessage).key === "object"
+        && (data as LaunchTokenKeyMessage).key !== null
+    )
+}
+
+type LaunchTokenKeyResetMessage = {
+    type: "launch-token-key-reset"
+}
+
+const isLaunchTokenKeyResetMessage = (data: unknown): data is LaunchTokenKeyResetMessage => {
+    return (
+        typeof data === "object"
+        && data !== null
+        && (data as LaunchTokenKeyResetMessage).type === "launch-token-key-reset"
+    )
+}
+
+const isAppShellOrigin = (origin: string) => APP_SHELL_ORIGINS.includes(origin)
+
+/**
+ * The app shell posts the public key that it signs
+ * launch tokens with, which is forwarded to the service 
+ * worker before any program is launched. App shells that
+ * lose or rotate their key reset it before registering 
+ * a new one. Messages are only accepted from a configured 
+ * app shell that directly embeds this document.
+ */
+const forwardLaunchTokenKeys = (worker: ServiceWorker) => {
+    const swRpc = new wRpc<ServiceWorkerFunctions>({
+        responses: {},
+        messageTarget: {
+            postMessage: (data, transferables) => {
+                worker.postMessage(data, transferables)
+            },
+            addEventListener: (_, handler) => {
+                navigator.serviceWorker.addEventListener("message", handler)
+            },
+            removeEventListener: (_, handler) => {
+                navigator.serviceWorker.removeEventListener("message", handler)
+            }
+        },
+        state: {}
+    })
+    window.addEventListener("message", async (event) => {
+        if (
+            window.parent !== window.top
+            || event.source !== window.top
+            || !isAppShellOrigin(event.origin)
+        ) {
+            return
+        }
+        if (isLaunchTokenKeyResetMessage(event.data)) {
+            const reset = await swRpc.execute("resetLaunchTokenKey")
+            top?.postMessage({type: "launch-token-key-reset", reset}, event.origin)
+            return
+        }
+        if (!isLaunchTokenKeyMessage(event.data)) {
+            return
+        }
+        const registered = await swRpc.execute("registerLaunchTokenKey", event.data.key)
+        top?.postMessage({type: "launch-token-key-registered", registered}, event.origin)
+    })
+}
 
 const main = async () => {
+    const timer = createBootTimer()
     if (window.top === window.self) {
         console.warn("sandbox is not loaded in iframe! Place this in a sandboxed iframe for better security!")
     }
@@ -9,19 +87,38 @@ const main = async () => {
         throw new Error("current browser doesn't support service workers")
     }
     console.info("[SANDBOX]: registering service worker...")
-    const registration = await navigator.serviceWorker.register(SERVICE_WORKER_FILE)
+    const registration = await timer.measure("register-worker", () => {
+        return navigator.serviceWorker.register(SERVICE_WORKER_FILE)
+    })
     if (!registration.active) {
         console.warn(`service worker controller not found`)
     }
-    window.setTimeout(() => {
-        console.info("[SANDBOX]: service worker registered successfully") 
-        if (window.location.pathname === RUN_PROGRAM_PATHNAME) {
-            console.warn("application attempted to run program without registering service worker")
-            window.location.reload()
-        } else {
-            top?.postMessage("finished", "*")
+    navigator.serviceWorker.ready.then(({active}) => {
+        if (active) {
+            forwardLaunchTokenKeys(active)
         }
-    }, 2_000)
-    await deleteStorage()
+    })
+    try {
+        await Promise.all([
+            timer.measure("worker-control", () => waitForController(navigator.serviceWorker)),
+            timer.measure("clear-storage", deleteStorage)
+        ])
+    } catch (error) {
+        console.error("[SANDBOX]: sandbox failed to boot", error)
+        top?.postMessage({
+            type: "sandbox-boot-failed",
+            error: String(error),
+            timings: timer.timings()
+        }, "*")
+        return
+    }
+    console.info("[SANDBOX]: service worker registered successfully") 
+    if (window.location.pathname === RUN_PROGRAM_PATHNAME) {
+        console.warn("application attempted to run program without registering service worker")
+        window.location.reload()
+        return
+    }
+    top?.postMessage("finished", "*")
+    top?.postMessage({type: "sandbox-boot-timings", timings: timer.timings()}, "*")
 }
-main()
\ No newline at end of file
+main()
@@ -0,0 +1,67 @@
+import {expect, it, describe} from "vitest"
+import {
+    bootFailure,
+    importFailureCode,
+    IMPORT_NETWORK_ERROR,
+    IMPORT_SYNTAX_ERROR,
+    IMPORT_EVALUATION_ERROR,
+    IMPORT_REFUSED,
+    MAIN_THREW,
+    MISSING_MAIN,
+    WORKER_REGISTRATION_FAILED
+} from "./bootFailures"
+import {
+    serviceWorkerErrorCodeHeader,
+    NETWORK_TIMEOUT,
+    INTEGRITY_MISMATCH
+} from "./serviceWorkerMeta"
+
+describe("boot failures", () => {
+    it("underlying error message and stack should be included", () => {
+        const failure = bootFailure(MAIN_THREW, "main threw", new RangeError("too many cookies"))
+        expect(failure.code).toBe(MAIN_THREW)
+        expect(failure.details).toBe("main threw")
+        expect(failure.message).toBe("RangeError: too many cookies")
+        expect(failure.stack).toContain("too many cookies")
+        expect(JSON.parse(JSON.stringify(failure))).toStrictEqual(failure)
+    })
+
+    it("failures without an error should have no message or stack", () => {
+        const failure = bootFailure(MISSING_MAIN, "no main")
+        expect(failure.message).toBe(null)
+        expect(failure.stack).toBe(null)
+        expect(failure.retryable).toBe(false)
+        expect(bootFailure(WORKER_REGISTRATION_FAILED, "", "quota").message).toBe("quota")
+        expect(bootFailure(WORKER_REGISTRATION_FAILED, "").retryable).toBe(true)
+    })
+
+    it("import errors should be classified by error type", async () => {
+        let requests = 0
+        const fetchEntry = async () => {
+            requests++
+            return new Response("", {status: 200})
+        }
+        expect(await importFailureCode(new SyntaxError("unexpected token"), fetchEntry)).toBe(IMPORT_SYNTAX_ERROR)
+        expect(await importFailureCode(new RangeError("too many cookies"), fetchEntry)).toBe(IMPORT_EVALUATION_ERROR)
+        expect(await importFailureCode("unknown", fetchEntry)).toBe(IMPORT_EVALUATION_ERROR)
+        expect(requests).toBe(0)
+        expect(bootFailure(IMPORT_EVALUATION_ERROR, "").retryable).toBe(false)
+    })
+
+    it("type errors should be classified by requesting entry again", async () => {
+        const typeError = new TypeError("Failed to fetch dynamically imported module")
+        const failure = (status: number, code: string | null = null) => async () => (
+            new Response("", {
+                status, 
+                headers: code ? {[serviceWorkerErrorCodeHeader]: code} : {}
+            })
+        )
+        // entry could be fetched, so evaluation threw
+        expect(await importFailureCode(typeError, failure(200))).toBe(IMPORT_EVALUATION_ERROR)
+        expect(await importFailureCode(typeError, async () => { throw new TypeError("offline") })).toBe(IMPORT_NETWORK_ERROR)
+        expect(await importFailureCode(typeError, failure(504, NETWORK_TIMEOUT))).toBe(IMPORT_NETWORK_ERROR)
+        expect(await importFailureCode(typeError, failure(503))).toBe(IMPORT_NETWORK_ERROR)
+        expect(await importFailureCode(typeError, failure(502, INTEGRITY_MISMATCH))).toBe(IMPORT_REFUSED)
+        expect(await importFailureCode(typeError, failure(404))).toBe(IMPORT_REFUSED)
+    })
+})
@@ -0,0 +1,122 @@
+import type {FatalErrorConfig} from "zakhaarif-dev-tools"
+import {
+    serviceWorkerErrorCodeHeader,
+    NETWORK_ERROR,
+    NETWORK_TIMEOUT,
+    CACHE_MISS
+} from "./serviceWorkerMeta"
+
+export const NO_SERVICE_WORKER = "no-service-worker"
+export const WORKER_REGISTRATION_FAILED = "worker-registration-failed"
+export const NESTED_EMBEDDING = "nested-embedding"
+export const PROGRAM_FILES_MISSING = "program-files-missing"
+export const MISSING_ENTRY = "missing-entry"
+export const IMPORT_NETWORK_ERROR = "import-network-error"
+export const IMPORT_SYNTAX_ERROR = "import-syntax-error"
+export const IMPORT_EVALUATION_ERROR = "import-evaluation-error"
+// entry responded with an error that retrying won't fix (e.g. a 404)
+export const IMPORT_REFUSED = "import-refused"
+export const MISSING_MAIN = "missing-main"
+export const MAIN_THREW = "main-threw"
+
+export type BootFailureCode = (
+    typeof NO_SERVICE_WORKER
+    | typeof WORKER_REGISTRATION_FAILED
+    | typeof NESTED_EMBEDDING
+    | typeof PROGRAM_FILES_MISSING
+    | typeof MISSING_ENTRY
+    | typeof IMPORT_NETWORK_ERROR
+    | typeof IMPORT_SYNTAX_ERROR
+    | typeof IMPORT_EVALUATION_ERROR
+    | typeof IMPORT_REFUSED
+    | typeof MISSING_MAIN
+    | typeof MAIN_THREW
+)
+
+/** whether relaunching the program may succeed */
+export const bootFailureRetryable = {
+    [NO_SERVICE_WORKER]: false,
+    [WORKER_REGISTRATION_FAILED]: true,
+    [NESTED_EMBEDDING]: false,
+    [PROGRAM_FILES_MISSING]: true,
+    [MISSING_ENTRY]: false,
+    [IMPORT_NETWORK_ERROR]: true,
+    [IMPORT_SYNTAX_ERROR]: false,
+    [IMPORT_EVALUATION_ERROR]: false,
+    [IMPORT_REFUSED]: false,
+    [MISSING_MAIN]: false,
+    [MAIN_THREW]: false,
+} as const satisfies Record<BootFailureCode, boolean>
+
+/**
+ * Sent with signalFatalError, "details" is kept
+ * as a readable summary for older app shells.
+ */
+export type BootFailure = FatalErrorConfig & {
+    code: BootFailureCode
+    retryable: boolean
+    /** message of underlying error, if any */
+    message: string | null
+    stack: string | null
+}
+
+export const bootFailure = (
+    code: BootFailureCode,
+    details: string,
+    error: unknown = null
+): BootFailure => {
+    const cause = error instanceof Error
+        ? {message: `${error.name}: ${error.message}`, stack: error.stack || null}
+        : {message: error === null ? null : String(error), stack: null}
+    return {
+        code,
+        details,
+        retryable: bootFailureRetryable[code],
+        ...cause
+    }
+}
+
+// service worker errors that may not happen again
+const RETRYABLE_ENTRY_ERRORS: ReadonlyArray<string> = [
+    NETWORK_ERROR,
+    NETWORK_TIMEOUT,
+    CACHE_MISS
+]
+
+const isErrorNamed = (error: unknown, name: string) => {
+    return error instanceof Error && error.name === name
+}
+
+/**
+ * Browsers reject dynamic imports with a SyntaxError if
+ * module fails to parse, and a TypeError if it cannot be fetched.
+ * Evaluating the module may throw anything (TypeErrors included),
+ * so entry is requested again after a TypeError to tell the two
+ * apart. Other errors are assumed to be thrown by evaluation.
+ */
+export const importFailureCode = async (
+    error: unknown,
+    fetchEntry: () => Promise<Response>
+): Promise<BootFailureCode> => {
+    if (isErrorNamed(error, "SyntaxError")) {
+        return IMPORT_SYNTAX_ERROR
+    }
+    if (!isErrorNamed(error, "TypeError")) {
+        return IMPORT_EVALUATION_ERROR
+    }
+    let response: Response
+    try {
+        response = await fetchEntry()
+    } catch {
+        return IMPORT_NETWORK_ERROR
+    }
+    response.body?.cancel().catch(() => {})
+    if (response.ok) {
+        return IMPORT_EVALUATION_ERROR
+    }
+    const code = response.headers.get(serviceWorkerErrorCodeHeader)
+    const retryable = code 
+        ? RETRYABLE_ENTRY_ERRORS.includes(code) 
+        : response.status >= 500
+    return retryable ? IMPORT_NETWORK_ERROR : IMPORT_REFUSED
+}
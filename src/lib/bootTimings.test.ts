@@ -0,0 +1,78 @@
+import {expect, it, describe} from "vitest"
+import {createBootTimer, waitForController, ControllableContainer} from "./bootTimings"
+
+const mockContainer = () => {
+    const listeners = new Set<() => void>()
+    const container = {
+        controller: null as ServiceWorker | null,
+        addEventListener: (_: string, listener: () => void) => { listeners.add(listener) },
+        removeEventListener: (_: string, listener: () => void) => { listeners.delete(listener) },
+    }
+    const takeControl = () => {
+        container.controller = {} as ServiceWorker
+        listeners.forEach((listener) => listener())
+    }
+    return {
+        container: container as unknown as ControllableContainer, 
+        listeners, 
+        takeControl
+    } as const
+}
+
+describe("boot timer", () => {
+    it("phases should be timed, including failed ones", async () => {
+        let time = 0
+        const timer = createBootTimer(() => time)
+        const value = await timer.measure("first", async () => {
+            time += 10
+            return 1
+        })
+        expect(value).toBe(1)
+        await expect(timer.measure("second", () => {
+            time += 5
+            throw new Error("failed")
+        })).rejects.toThrow()
+        const {phases, total} = timer.timings()
+        expect(phases).toStrictEqual([
+            {phase: "first", start: 0, duration: 10, failed: false},
+            {phase: "second", start: 10, duration: 5, failed: true},
+        ])
+        expect(total).toBe(15)
+    })
+
+    it("timings should be available while a phase is still running", async () => {
+        let time = 0
+        const timer = createBootTimer(() => time)
+        let finish = () => {}
+        const running = timer.measure("main", () => new Promise<void>((resolve) => { finish = resolve }))
+        time += 20
+        expect(timer.timings().phases).toStrictEqual([
+            {phase: "main", start: 0, duration: 0, failed: false}
+        ])
+        finish()
+        await running
+        expect(timer.timings().phases[0].duration).toBe(20)
+    })
+})
+
+describe("waiting for service worker control", () => {
+    it("should resolve immediately if page is already controlled", async () => {
+        const {container, takeControl} = mockContainer()
+        takeControl()
+        expect(await waitForController(container, 10)).toBe(container.controller)
+    })
+
+    it("should resolve once service worker takes control", async () => {
+        const {container, listeners, takeControl} = mockContainer()
+        const controlled = waitForController(container, 1_000)
+        takeControl()
+        expect(await controlled).toBe(container.controller)
+        expect(listeners.size).toBe(0)
+    })
+
+    it("should reject if service worker does not take control in time", async () => {
+        const {container, listeners} = mockContainer()
+        await expect(waitForController(container, 5)).rejects.toThrow()
+        expect(listeners.size).toBe(0)
+    })
+})
@@ -0,0 +1,84 @@
+export type BootPhaseTiming = {
+    phase: string
+    /** milliseconds since page's time origin */
+    start: number
+    /** 0 if phase was still running when timings were taken */
+    duration: number
+    failed: boolean
+}
+
+export type BootTimings = {
+    phases: BootPhaseTiming[]
+    /** from time origin until last phase ended */
+    total: number
+}
+
+export type BootTimer = {
+    /** times task as a phase, rethrowing if it fails */
+    measure: <T>(phase: string, task: () => Promise<T> | T) => Promise<T>
+    timings: () => BootTimings
+}
+
+export const createBootTimer = (now: () => number = () => performance.now()): BootTimer => {
+    const phases = [] as BootPhaseTiming[]
+    return {
+        measure: async (phase, task) => {
+            const start = now()
+            const timing: BootPhaseTiming = {phase, start, duration: 0, failed: false}
+            phases.push(timing)
+            try {
+                return await task()
+            } catch (error) {
+                timing.failed = true
+                throw error
+            } finally {
+                timing.duration = now() - start
+            }
+        },
+        timings: () => ({
+            phases: phases.map((timing) => ({...timing})),
+            total: phases.reduce(
+                (latest, {start, duration}) => Math.max(latest, start + duration),
+                0
+            )
+        })
+    }
+}
+
+/** how long boot timings wait for main to settle before being sent */
+export const MAX_BOOT_TIMINGS_WAIT_MILLISECONDS = 5_000
+
+export type ControllableContainer = Pick<
+    ServiceWorkerContainer,
+    "controller" | "addEventListener" | "removeEventListener"
+>
+
+export const DEFAULT_WORKER_CONTROL_TIMEOUT_MILLISECONDS = 10_000
+
+/**
+ * Resolves once a service worker controls the page,
+ * rejects if none does before timeout.
+ */
+export const waitForController = (
+    container: ControllableContainer,
+    timeoutMilliseconds = DEFAULT_WORKER_CONTROL_TIMEOUT_MILLISECONDS
+) => {
+    if (container.controller) {
+        return Promise.resolve(container.controller)
+    }
+    return new Promise<ServiceWorker>((resolve, reject) => {
+        const onControllerChange = () => {
+            if (!container.controller) {
+                return
+            }
+            clearTimeout(timeoutId)
+            container.removeEventListener("controllerchange", onControllerChange)
+            resolve(container.controller)
+        }
+        const timeoutId = setTimeout(() => {
+            container.removeEventListener("controllerchange", onControllerChange)
+            reject(new Error(`service worker did not take control within ${timeoutMilliseconds}ms`))
+        }, timeoutMilliseconds)
+        container.addEventListener("controllerchange", onControllerChange)
+    })
+}
@@ -0,0 +1,37 @@
+import {expect, it, describe} from "vitest"
+import {clientFileResponse} from "./clientFile"
+
+const body = () => new Response("hello").body!
+
+describe("client file responses", () => {
+    it("should return null if file is malformed", () => {
+        expect(clientFileResponse(null)).toBe(null)
+        expect(clientFileResponse("file")).toBe(null)
+        expect(clientFileResponse({type: "text/plain", length: 5})).toBe(null)
+        expect(clientFileResponse({body: body(), length: 5})).toBe(null)
+        expect(clientFileResponse({body: body(), type: "text/plain"})).toBe(null)
+    })
+
+    it("should return response with content-type and content-length headers", async () => {
+        const res = clientFileResponse({body: body(), type: "text/plain", length: "5"})
+        expect(res?.status).toBe(200)
+        expect(res?.headers.get("content-type")).toBe("text/plain")
+        expect(res?.headers.get("content-length")).toBe("5")
+        expect(res?.headers.has("etag")).toBe(false)
+        expect(await res?.text()).toBe("hello")
+    })
+
+    it("should include validator headers if file has them", () => {
+        const res = clientFileResponse({
+            body: body(), 
+            type: "text/plain", 
+            length: 5,
+            etag: "\"v1\"",
+            lastModified: 0,
+            cacheControl: "no-cache"
+        })
+        expect(res?.headers.get("etag")).toBe("\"v1\"")
+        expect(res?.headers.get("last-modified")).toBe(new Date(0).toUTCString())
+        expect(res?.headers.get("cache-control")).toBe("no-cache")
+    })
+})
@@ -0,0 +1,62 @@
+import type {FileTransfer} from "zakhaarif-dev-tools"
+
+/**
+ * Optional metadata an app shell may attach to
+ * files returned from "getFile", used to let
+ * the browser (and extensions) revalidate files.
+ */
+export type ClientFileValidators = {
+    etag?: string
+    /** unix timestamp in milliseconds or http-date string */
+    lastModified?: number | string
+    cacheControl?: string
+}
+
+export type ClientFile = FileTransfer & ClientFileValidators
+
+const httpDate = (lastModified: number | string) => {
+    if (typeof lastModified === "string") {
+        return lastModified
+    }
+    return new Date(lastModified).toUTCString()
+}
+
+/**
+ * Converts a file returned by the app shell into a
+ * response, returns null if file is malformed.
+ */
+export const clientFileResponse = (file: unknown) => {
+    if (typeof file !== "object" || file === null) {
+        return null
+    }
+    const {body, type, length} = file as Partial<ClientFile>
+    if (
+        !(body instanceof ReadableStream)
+        || typeof type !== "string"
+        || (typeof length !== "number" && typeof length !== "string")
+    ) {
+        return null
+    }
+    const headers = new Headers({
+        "content-type": type,
+        "content-length": length.toString()
+    })
+    const {etag, lastModified, cacheControl} = file as ClientFileValidators
+    if (typeof etag === "string" && etag.length > 0) {
+        headers.set("etag", etag)
+    }
+    if (
+        (typeof lastModified === "number" && !isNaN(lastModified))
+        || (typeof lastModified === "string" && lastModified.length > 0)
+    ) {
+        headers.set("last-modified", httpDate(lastModified))
+    }
+    if (typeof cacheControl === "string" && cacheControl.length > 0) {
+        headers.set("cache-control", cacheControl)
+    }
+    return new Response(body, {
+        status: 200,
+        statusText: "OK",
+        headers
+    })
+}
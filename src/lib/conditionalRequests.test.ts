@@ -0,0 +1,77 @@
+import {expect, it, describe} from "vitest"
+import {isNotModified, notModifiedResponse} from "./conditionalRequests"
+
+const conditionalRequest = (headers: Record<string, string>, method = "GET") => {
+    return new Request("https://cookies.com/index.js", {headers, method})
+}
+
+const file = (headers: Record<string, string>, status = 200) => {
+    return new Response("console.log(1)", {status, headers})
+}
+
+describe("conditional requests", () => {
+    it("should not be modified if if-none-match contains response etag", () => {
+        const res = file({etag: "\"v2\""})
+        expect(isNotModified(conditionalRequest({"if-none-match": "\"v2\""}), res)).toBe(true)
+        expect(isNotModified(conditionalRequest({"if-none-match": "\"v1\", \"v2\""}), res)).toBe(true)
+        expect(isNotModified(conditionalRequest({"if-none-match": "W/\"v2\""}), res)).toBe(true)
+        expect(isNotModified(conditionalRequest({"if-none-match": "*"}), res)).toBe(true)
+    })
+
+    it("should be modified if if-none-match does not contain response etag", () => {
+        expect(isNotModified(
+            conditionalRequest({"if-none-match": "\"v1\""}), 
+            file({etag: "\"v2\""})
+        )).toBe(false)
+        expect(isNotModified(
+            conditionalRequest({"if-none-match": "\"v1\""}), 
+            file({})
+        )).toBe(false)
+    })
+
+    it("should not be modified if response was last modified before if-modified-since", () => {
+        const res = file({"last-modified": new Date(1_000).toUTCString()})
+        expect(isNotModified(
+            conditionalRequest({"if-modified-since": new Date(5_000).toUTCString()}), 
+            res
+        )).toBe(true)
+        expect(isNotModified(
+            conditionalRequest({"if-modified-since": new Date(0).toUTCString()}), 
+            res
+        )).toBe(false)
+    })
+
+    it("if-modified-since should be ignored if if-none-match is present", () => {
+        const res = file({
+            etag: "\"v2\"",
+            "last-modified": new Date(1_000).toUTCString()
+        })
+        expect(isNotModified(
+            conditionalRequest({
+                "if-none-match": "\"v1\"",
+                "if-modified-since": new Date(5_000).toUTCString()
+            }), 
+            res
+        )).toBe(false)
+    })
+
+    it("should only apply to successful GET or HEAD requests", () => {
+        const headers = {"if-none-match": "\"v2\""}
+        expect(isNotModified(conditionalRequest(headers, "POST"), file({etag: "\"v2\""}))).toBe(false)
+        expect(isNotModified(conditionalRequest(headers, "HEAD"), file({etag: "\"v2\""}))).toBe(true)
+        expect(isNotModified(conditionalRequest(headers), file({etag: "\"v2\""}, 404))).toBe(false)
+    })
+
+    it("not modified response should have no body and only carry validator headers", async () => {
+        const res = await notModifiedResponse(file({
+            etag: "\"v2\"",
+            "cache-control": "max-age=60",
+            "content-type": "text/javascript",
+        }))
+        expect(res.status).toBe(304)
+        expect(res.body).toBe(null)
+        expect(res.headers.get("etag")).toBe("\"v2\"")
+        expect(res.headers.get("cache-control")).toBe("max-age=60")
+        expect(res.headers.has("content-type")).toBe(false)
+    })
+})
@@ -0,0 +1,76 @@
+// headers that must be sent in a 304 response if they
+// would have been sent in a 200 response (RFC 7232 4.1)
+const NOT_MODIFIED_HEADERS = [
+    "cache-control",
+    "content-location",
+    "date",
+    "etag",
+    "expires",
+    "last-modified",
+    "vary",
+] as const
+
+const weakEtag = (etag: string) => etag.trim().replace(/^W\//, "")
+
+const etagMatches = (ifNoneMatch: string, etag: string | null) => {
+    if (ifNoneMatch.trim() === "*") {
+        return etag !== null
+    }
+    if (!etag) {
+        return false
+    }
+    const target = weakEtag(etag)
+    return ifNoneMatch.split(",").some((candidate) => weakEtag(candidate) === target)
+}
+
+const notModifiedSince = (ifModifiedSince: string, lastModified: string | null) => {
+    if (!lastModified) {
+        return false
+    }
+    const since = Date.parse(ifModifiedSince)
+    const modified = Date.parse(lastModified)
+    if (isNaN(since) || isNaN(modified)) {
+        return false
+    }
+    return modified <= since
+}
+
+/**
+ * Returns true if the conditional headers of a 
+ * GET or HEAD request match the response.
+ * "If-Modified-Since" is ignored if "If-None-Match"
+ * is present.
+ */
+export const isNotModified = (request: Request, response: Response) => {
+    if (
+        response.status !== 200
+        || (request.method !== "GET" && request.method !== "HEAD")
+    ) {
+        return false
+    }
+    const ifNoneMatch = request.headers.get("if-none-match")
+    if (ifNoneMatch) {
+        return etagMatches(ifNoneMatch, response.headers.get("etag"))
+    }
+    const ifModifiedSince = request.headers.get("if-modified-since")
+    if (ifModifiedSince) {
+        return notModifiedSince(ifModifiedSince, response.headers.get("last-modified"))
+    }
+    return false
+}
+
+export const notModifiedResponse = async (response: Response) => {
+    await response.body?.cancel()
+    const headers = new Headers()
+    for (const name of NOT_MODIFIED_HEADERS) {
+        const value = response.headers.get(name)
+        if (value !== null) {
+            headers.set(name, value)
+        }
+    }
+    return new Response(null, {
+        status: 304,
+        statusText: "NOT MODIFIED",
+        headers
+    })
+}
@@ -0,0 +1,93 @@
+import {expect, it, describe} from "vitest"
+import {
+    createConsoleBridge,
+    serializeConsoleArgument,
+    ConsoleBatch,
+    ConsoleTarget
+} from "./consoleBridge"
+
+const mockConsole = () => {
+    const printed = [] as unknown[][]
+    const print = (...args: unknown[]) => { printed.push(args) }
+    const target: ConsoleTarget = {
+        debug: print, log: print, info: print, warn: print, error: print
+    }
+    return {target, printed} as const
+}
+
+describe("console argument serialization", () => {
+    it("values should be serialized to strings", () => {
+        const circular: Record<string, unknown> = {name: "cookie"}
+        circular.self = circular
+        expect(serializeConsoleArgument("text")).toBe("text")
+        expect(serializeConsoleArgument(1)).toBe("1")
+        expect(serializeConsoleArgument(undefined)).toBe("undefined")
+        expect(serializeConsoleArgument({n: 1n})).toBe("{\"n\":\"1n\"}")
+        expect(serializeConsoleArgument(circular)).toBe("{\"name\":\"cookie\",\"self\":\"[Circular]\"}")
+        expect(serializeConsoleArgument(new Error("boom"))).toContain("boom")
+    })
+})
+
+describe("console bridge", () => {
+    it("console calls should only be forwarded while enabled", async () => {
+        const {target, printed} = mockConsole()
+        const batches = [] as ConsoleBatch[]
+        const bridge = createConsoleBridge(target, {
+            send: (batch) => batches.push(batch),
+            flushIntervalMilliseconds: 1
+        })
+        target.log("before")
+        bridge.enable()
+        target.warn("during", {cookies: 1})
+        await new Promise((resolve) => setTimeout(resolve, 10))
+        bridge.disable()
+        target.log("after")
+        bridge.flush()
+        expect(printed.length).toBe(3)
+        expect(batches.length).toBe(1)
+        expect(batches[0].entries.length).toBe(1)
+        const [entry] = batches[0].entries
+        expect(entry.level).toBe("warn")
+        expect(entry.args).toStrictEqual(["during", "{\"cookies\":1}"])
+        expect(JSON.parse(JSON.stringify(batches[0]))).toStrictEqual(batches[0])
+    })
+
+    it("entries should be truncated and batched, dropping oldest when queue is full", () => {
+        const {target} = mockConsole()
+        const batches = [] as ConsoleBatch[]
+        const bridge = createConsoleBridge(target, {
+            send: (batch) => batches.push(batch),
+            maxBatchEntries: 2,
+            maxQueuedEntries: 3,
+            maxEntryLength: 5
+        })
+        bridge.enable()
+        target.log("0123456789", "dropped")
+        for (let i = 1; i < 5; i++) {
+            target.log(`entry ${i}`)
+        }
+        bridge.flush()
+        expect(batches.map((batch) => batch.entries.length)).toStrictEqual([2, 1])
+        expect(batches[0].dropped).toBe(2)
+        expect(batches[1].dropped).toBe(0)
+        expect(batches[0].entries[0].args).toStrictEqual(["entry"])
+        bridge.disable()
+    })
+
+    it("console calls made while sending should not be captured", () => {
+        const {target} = mockConsole()
+        const batches = [] as ConsoleBatch[]
+        const bridge = createConsoleBridge(target, {
+            send: (batch) => {
+                target.log("sending")
+                batches.push(batch)
+            }
+        })
+        bridge.enable()
+        target.log("captured")
+        bridge.flush()
+        bridge.flush()
+        expect(batches.length).toBe(1)
+        expect(batches[0].entries.length).toBe(1)
+    })
+})
@@ -0,0 +1,195 @@
+export const CONSOLE_LEVELS = ["debug", "log", "info", "warn", "error"] as const
+
+export type ConsoleLevel = typeof CONSOLE_LEVELS[number]
+
+export type ConsoleEntry = {
+    level: ConsoleLevel
+    /** arguments serialized to strings, truncated if too long */
+    args: string[]
+    /** milliseconds since unix epoch */
+    timestamp: number
+    /** caller location ("url:line:column"), if known */
+    location: string | null
+}
+
+export type ConsoleBatch = {
+    entries: ConsoleEntry[]
+    /** entries dropped since last batch, as queue was full */
+    dropped: number
+}
+
+export type ConsoleTarget = Record<ConsoleLevel, (...args: unknown[]) => void>
+
+export type ConsoleBridgeOptions = {
+    send: (batch: ConsoleBatch) => unknown
+    /** defaults to 250ms */
+    flushIntervalMilliseconds?: number
+    /** queued entries are split into batches of this size, defaults to 100 */
+    maxBatchEntries?: number
+    /** oldest entries are dropped once exceeded, defaults to 1,000 */
+    maxQueuedEntries?: number
+    /** characters per entry, defaults to 4,096 */
+    maxEntryLength?: number
+}
+
+export type ConsoleBridge = {
+    enable: () => void
+    /** queued entries are flushed before disabling */
+    disable: () => void
+    isEnabled: () => boolean
+    flush: () => void
+}
+
+export const DEFAULT_CONSOLE_FLUSH_INTERVAL_MILLISECONDS = 250
+export const DEFAULT_CONSOLE_BATCH_ENTRIES = 100
+export const DEFAULT_CONSOLE_QUEUED_ENTRIES = 1_000
+export const DEFAULT_CONSOLE_ENTRY_LENGTH = 4_096
+
+const stringifyValue = (value: unknown) => {
+    const seen = new WeakSet<object>()
+    return JSON.stringify(value, (_, property: unknown) => {
+        if (typeof property === "bigint") {
+            return `${property}n`
+        }
+        if (typeof property === "function") {
+            return `[Function ${property.name || "anonymous"}]`
+        }
+        if (typeof property === "object" && property !== null) {
+            if (seen.has(property)) {
+                return "[Circular]"
+            }
+            seen.add(property)
+        }
+        return property
+    })
+}
+
+export const serializeConsoleArgument = (value: unknown) => {
+    if (typeof value === "string") {
+        return value
+    }
+    if (value instanceof Error) {
+        return value.stack || `${value.name}: ${value.message}`
+    }
+    if (value === undefined || typeof value === "symbol" || typeof value === "function") {
+        return String(value)
+    }
+    try {
+        return stringifyValue(value) ?? String(value)
+    } catch {
+        return String(value)
+    }
+}
+
+const STACK_LOCATION = /((?:https?|blob):[^\s()]+:\d+:\d+)/
+
+/**
+ * Location of the code that called a console method,
+ * frames are skipped until the wrapped console method.
+ */
+const callerLocation = (stack: string | undefined) => {
+    if (!stack) {
+        return null
+    }
+    const frames = stack
+        .split("\n")
+        .filter((line) => STACK_LOCATION.test(line))
+    // first frame is the console method wrapper
+    const caller = frames[1]
+    return caller?.match(STACK_LOCATION)?.[1] || null
+}
+
+/**
+ * Wraps methods of target console, original methods
+ * are always called whether bridge is enabled or not.
+ */
+export const createConsoleBridge = (
+    target: ConsoleTarget,
+    options: ConsoleBridgeOptions
+): ConsoleBridge => {
+    const {
+        send,
+        flushIntervalMilliseconds = DEFAULT_CONSOLE_FLUSH_INTERVAL_MILLISECONDS,
+        maxBatchEntries = DEFAULT_CONSOLE_BATCH_ENTRIES,
+        maxQueuedEntries = DEFAULT_CONSOLE_QUEUED_ENTRIES,
+        maxEntryLength = DEFAULT_CONSOLE_ENTRY_LENGTH
+    } = options
+    let enabled = false
+    let queue = [] as ConsoleEntry[]
+    let dropped = 0
+    let flushTimer: ReturnType<typeof setTimeout> | null = null
+    // console calls made while sending (by rpc library for
+    // example) are not captured, to avoid feedback loops
+    let sending = false
+
+    const flush = () => {
+        if (flushTimer !== null) {
+            clearTimeout(flushTimer)
+            flushTimer = null
+        }
+        while (queue.length > 0) {
+            const batch: ConsoleBatch = {
+                entries: queue.slice(0, maxBatchEntries),
+                dropped
+            }
+            queue = queue.slice(maxBatchEntries)
+            dropped = 0
+            sending = true
+            try {
+                send(batch)
+            } catch {
+                // console output is best effort
+            } finally {
+                sending = false
+            }
+        }
+    }
+
+    const capture = (level: ConsoleLevel, args: unknown[], stack: string | undefined) => {
+        let remaining = maxEntryLength
+        const serialized = [] as string[]
+        for (const arg of args) {
+            if (remaining < 1) {
+                break
+            }
+            const text = serializeConsoleArgument(arg)
+            serialized.push(text.length > remaining ? text.slice(0, remaining) : text)
+            remaining -= text.length
+        }
+        queue.push({
+            level,
+            args: serialized,
+            timestamp: Date.now(),
+            location: callerLocation(stack)
+        })
+        if (queue.length > maxQueuedEntries) {
+            const overflow = queue.length - maxQueuedEntries
+            queue.splice(0, overflow)
+            dropped += overflow
+        }
+        if (flushTimer === null) {
+            flushTimer = setTimeout(flush, flushIntervalMilliseconds)
+        }
+    }
+
+    for (const level of CONSOLE_LEVELS) {
+        const original = target[level].bind(target)
+        target[level] = (...args: unknown[]) => {
+            original(...args)
+            if (!enabled || sending) {
+                return
+            }
+            capture(level, args, new Error().stack)
+        }
+    }
+
+    return {
+        enable: () => { enabled = true },
+        disable: () => {
+            flush()
+            enabled = false
+        },
+        isEnabled: () => enabled,
+        flush
+    }
+}
@@ -0,0 +1,125 @@
+import {expect, it, describe} from "vitest"
+import {
+    parseContentSecurityPolicy,
+    serializeContentSecurityPolicy,
+    validateContentSecurityPolicy,
+    buildContentSecurityPolicy
+} from "./contentSecurityPolicy"
+
+describe("content security policy parsing", () => {
+    it("should parse directives into source lists", () => {
+        const directives = parseContentSecurityPolicy(
+            "default-src 'self';  Script-Src 'self' https://cdn.com; upgrade-insecure-requests;"
+        )
+        expect(directives).toStrictEqual({
+            "default-src": ["'self'"],
+            "script-src": ["'self'", "https://cdn.com"],
+            "upgrade-insecure-requests": [],
+        })
+    })
+
+    it("should only keep first occurrence of duplicate directives", () => {
+        const directives = parseContentSecurityPolicy("script-src 'self'; script-src *;")
+        expect(directives).toStrictEqual({"script-src": ["'self'"]})
+    })
+
+    it("should throw if policy has unknown, unsupported or malformed directives", () => {
+        expect(() => parseContentSecurityPolicy("true")).toThrow()
+        expect(() => parseContentSecurityPolicy("frame-ancestors 'none';")).toThrow()
+        expect(() => parseContentSecurityPolicy("script-src 'self', script-src *")).toThrow()
+        expect(() => parseContentSecurityPolicy(`script-src 'self"<script>';`)).toThrow()
+    })
+
+    it("serializing parsed policy should return the same policy", () => {
+        const policy = "default-src 'self'; script-src 'self' https://cdn.com; upgrade-insecure-requests;"
+        expect(serializeContentSecurityPolicy(parseContentSecurityPolicy(policy))).toBe(policy)
+    })
+})
+
+describe("content security policy validation", () => {
+    it("should return no violations for policies at or above baseline", () => {
+        expect(validateContentSecurityPolicy({"default-src": ["'self'"]})).toStrictEqual([])
+        expect(validateContentSecurityPolicy({
+            "default-src": ["*"],
+            "script-src": ["'self'", "https://cdn.com"]
+        })).toStrictEqual([])
+    })
+
+    it("should reject policies that do not restrict scripts", () => {
+        expect(validateContentSecurityPolicy({}).length).toBe(1)
+        expect(validateContentSecurityPolicy({"img-src": ["*"]}).length).toBe(1)
+        expect(validateContentSecurityPolicy({"script-src": ["*"]}).length).toBe(1)
+        expect(validateContentSecurityPolicy({"default-src": ["https:"]}).length).toBe(1)
+        expect(validateContentSecurityPolicy({
+            "script-src": ["'self'"],
+            "script-src-elem": ["http:"]
+        }).length).toBe(1)
+    })
+
+    it("should reject worker sources and wildcard hosts that allow scripts from any origin", () => {
+        const restricted = {"script-src": ["'self'"]}
+        expect(validateContentSecurityPolicy({...restricted, "worker-src": ["*"]}).length).toBe(1)
+        expect(validateContentSecurityPolicy({...restricted, "child-src": ["https:"]}).length).toBe(1)
+        expect(validateContentSecurityPolicy({"script-src": ["https://*.com"]}).length).toBe(1)
+        expect(validateContentSecurityPolicy({"script-src": ["*.com"]}).length).toBe(1)
+        expect(validateContentSecurityPolicy({"script-src": ["https://*"]}).length).toBe(1)
+        expect(validateContentSecurityPolicy({"script-src": ["https://*:443"]}).length).toBe(1)
+        expect(validateContentSecurityPolicy({
+            "script-src": ["https://*.cdn.com", "https://cdn.com:*"],
+            "worker-src": ["'self'", "blob:"]
+        }, {allowBlobs: true})).toStrictEqual([])
+    })
+
+    it("unsafe sources should only be allowed if explicitly permitted", () => {
+        const directives = {
+            "script-src": ["'self'", "'unsafe-eval'", "'unsafe-inline'", "data:", "blob:"]
+        }
+        expect(validateContentSecurityPolicy(directives).length).toBe(4)
+        expect(validateContentSecurityPolicy(directives, {
+            allowUnsafeEval: true,
+            allowUnsafeInline: true,
+            allowDataUrls: true,
+            allowBlobs: true,
+        })).toStrictEqual([])
+        expect(validateContentSecurityPolicy(directives, {
+            allowUnsafeEval: true,
+        }).length).toBe(3)
+    })
+})
+
+describe("content security policy builder", () => {
+    it("should merge mandatory directives into policy", () => {
+        const policy = buildContentSecurityPolicy({
+            directives: {
+                "default-src": ["'self'"],
+                "object-src": ["*"],
+            }
+        })
+        expect(policy).toBe("default-src 'self'; object-src 'none'; base-uri 'none';")
+    })
+
+    it("should throw if policy is weaker than baseline", () => {
+        expect(() => buildContentSecurityPolicy({
+            directives: {"script-src": ["*"]}
+        })).toThrow()
+        expect(() => buildContentSecurityPolicy({
+            directives: {"script-src": ["'self'", "'unsafe-eval'"]}
+        })).toThrow()
+        expect(buildContentSecurityPolicy({
+            directives: {"script-src": ["'self'", "'unsafe-eval'"]},
+            allowUnsafeEval: true
+        })).toBe("script-src 'self' 'unsafe-eval'; object-src 'none'; base-uri 'none';")
+    })
+
+    it("should throw if structured directives are malformed", () => {
+        expect(() => buildContentSecurityPolicy({
+            directives: {"not-a-directive": ["'self'"]}
+        })).toThrow()
+        expect(() => buildContentSecurityPolicy({
+            directives: {"script-src": "'self'"} as unknown as Record<string, string[]>
+        })).toThrow()
+        expect(() => buildContentSecurityPolicy({
+            directives: {"script-src": ["'self'; img-src *"]}
+        })).toThrow()
+    })
+})
@@ -0,0 +1,186 @@
+export type CspDirectives = Record<string, string[]>
+
+export type CspAllowances = {
+    allowUnsafeEval?: boolean
+    allowUnsafeInline?: boolean
+    allowDataUrls?: boolean
+    allowBlobs?: boolean
+}
+
+/**
+ * Structured alternative to hand-encoding a
+ * policy string, e.g. {directives: {"script-src": ["'self'"]}}
+ */
+export type CspConfig = CspAllowances & {
+    directives: CspDirectives
+}
+
+// frame-ancestors, sandbox & report-uri are not
+// supported in <meta> policies so they are excluded
+const KNOWN_DIRECTIVES: ReadonlySet<string> = new Set([
+    "default-src",
+    "script-src",
+    "script-src-elem",
+    "script-src-attr",
+    "style-src",
+    "style-src-elem",
+    "style-src-attr",
+    "img-src",
+    "font-src",
+    "connect-src",
+    "media-src",
+    "object-src",
+    "frame-src",
+    "child-src",
+    "worker-src",
+    "manifest-src",
+    "prefetch-src",
+    "base-uri",
+    "form-action",
+    "upgrade-insecure-requests",
+    "block-all-mixed-content",
+    "require-trusted-types-for",
+    "trusted-types",
+])
+
+// worker-src & child-src also govern where 
+// worker scripts can be loaded from
+const SCRIPT_DIRECTIVES = [
+    "script-src",
+    "script-src-elem",
+    "script-src-attr",
+    "worker-src",
+    "child-src"
+] as const
+
+/** always override directives of the same name */
+export const MANDATORY_DIRECTIVES: Readonly<CspDirectives> = {
+    "object-src": ["'none'"],
+    "base-uri": ["'none'"],
+}
+
+const WILDCARD_SCRIPT_SOURCES: ReadonlySet<string> = new Set([
+    "*",
+    "http:",
+    "https:"
+])
+
+const INVALID_TOKEN = /[;,"<>\s]/
+
+const HOST_SOURCE = /^(?:[a-z][a-z0-9+.-]*:\/\/)?([^:/]+)/
+
+/**
+ * Host sources that match any host ("https://*") or 
+ * every subdomain of a top level domain ("https://*.com")
+ */
+const isWildcardHostSource = (source: string) => {
+    if (source.startsWith("'")) {
+        return false
+    }
+    const host = source.match(HOST_SOURCE)?.[1] || ""
+    if (host === "*") {
+        return true
+    }
+    return host.startsWith("*.") && !host.slice(2).includes(".")
+}
+
+/**
+ * Parses a policy string into directives. Throws if
+ * policy contains unknown directives or malformed values.
+ * Only the first occurrence of a directive is kept,
+ * which matches browser behaviour.
+ */
+export const parseContentSecurityPolicy = (policy: string) => {
+    if (policy.includes(",")) {
+        throw new Error("multiple policies (',') are not supported")
+    }
+    const directives: CspDirectives = {}
+    const segments = policy.split(";")
+        .map((segment) => segment.trim())
+        .filter((segment) => segment.length > 0)
+    for (const segment of segments) {
+        const [rawName, ...values] = segment.split(/\s+/)
+        const name = rawName.toLowerCase()
+        if (!KNOWN_DIRECTIVES.has(name)) {
+            throw new Error(`unknown or unsupported directive "${rawName}"`)
+        }
+        for (const value of values) {
+            if (INVALID_TOKEN.test(value)) {
+                throw new Error(`directive "${name}" has malformed value "${value}"`)
+            }
+        }
+        if (!(name in directives)) {
+            directives[name] = values
+        }
+    }
+    return directives
+}
+
+export const serializeContentSecurityPolicy = (directives: Readonly<CspDirectives>) => {
+    return Object.entries(directives)
+        .map(([name, values]) => [name, ...values].join(" ") + ";")
+        .join(" ")
+}
+
+/**
+ * Returns a list of reasons why directives are
+ * weaker than the sandbox baseline, empty if none.
+ */
+export const validateContentSecurityPolicy = (
+    directives: Readonly<CspDirectives>,
+    allowances: CspAllowances = {}
+) => {
+    const violations: string[] = []
+    const checked: string[] = SCRIPT_DIRECTIVES.filter((name) => name in directives)
+    if (!("script-src" in directives)) {
+        if (!("default-src" in directives)) {
+            violations.push("either 'script-src' or 'default-src' must be specified")
+        } else {
+            checked.push("default-src")
+        }
+    }
+    for (const name of checked) {
+        for (const source of directives[name]) {
+            const value = source.toLowerCase()
+            if (WILDCARD_SCRIPT_SOURCES.has(value) || isWildcardHostSource(value)) {
+                violations.push(`'${name}' cannot allow scripts from any origin (${source})`)
+            } else if (value === "'unsafe-eval'" && !allowances.allowUnsafeEval) {
+                violations.push(`'${name}' cannot include 'unsafe-eval'`)
+            } else if (value === "'unsafe-inline'" && !allowances.allowUnsafeInline) {
+                violations.push(`'${name}' cannot include 'unsafe-inline'`)
+            } else if (value === "data:" && !allowances.allowDataUrls) {
+                violations.push(`'${name}' cannot include data urls`)
+            } else if (value === "blob:" && !allowances.allowBlobs) {
+                violations.push(`'${name}' cannot include blobs`)
+            }
+        }
+    }
+    return violations
+}
+
+/**
+ * Validates directives against the sandbox baseline,
+ * merges in mandatory directives and returns the
+ * serialized policy. Throws if policy is too weak.
+ */
+export const buildContentSecurityPolicy = (config: CspConfig) => {
+    const {directives, ...allowances} = config
+    const normalized: CspDirectives = {}
+    for (const [rawName, values] of Object.entries(directives)) {
+        const name = rawName.toLowerCase()
+        if (!KNOWN_DIRECTIVES.has(name)) {
+            throw new Error(`unknown or unsupported directive "${rawName}"`)
+        }
+        if (!Array.isArray(values) || values.some((value) => (
+            typeof value !== "string" || value.length < 1 || INVALID_TOKEN.test(value)
+        ))) {
+            throw new Error(`directive "${name}" has malformed values`)
+        }
+        normalized[name] = values
+    }
+    const violations = validateContentSecurityPolicy(normalized, allowances)
+    if (violations.length > 0) {
+        throw new Error(`content security policy is weaker than sandbox baseline: ${violations.join(", ")}`)
+    }
+    return serializeContentSecurityPolicy({...normalized, ...MANDATORY_DIRECTIVES})
+}
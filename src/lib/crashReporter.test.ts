@@ -0,0 +1,57 @@
+import {expect, it, describe} from "vitest"
+import {createCrashReporter, errorEventLocation, CrashReport} from "./crashReporter"
+
+const nonFatal = (error: unknown) => ({kind: "error", severity: "non-fatal", error} as const)
+
+describe("crash reporter", () => {
+    it("reports should include message and stack trace", () => {
+        const reports = [] as CrashReport[]
+        const reporter = createCrashReporter({send: (report) => reports.push(report)})
+        reporter.report(nonFatal(new TypeError("x is undefined")), 0)
+        reporter.report({kind: "unhandled-rejection", severity: "non-fatal", error: {code: 1}}, 0)
+        expect(reports[0].message).toBe("TypeError: x is undefined")
+        expect(reports[0].stack).toContain("x is undefined")
+        expect(reports[1].message).toBe("{\"code\":1}")
+        expect(reports[1].stack).toBe(null)
+        expect(JSON.parse(JSON.stringify(reports[0]))).toStrictEqual(reports[0])
+    })
+
+    it("identical crashes should be reported once per window, with repeat count", () => {
+        const reports = [] as CrashReport[]
+        const reporter = createCrashReporter({
+            send: (report) => reports.push(report),
+            windowMilliseconds: 1_000
+        })
+        const error = new Error("tick failed")
+        expect(reporter.report(nonFatal(error), 0)).toBe(true)
+        expect(reporter.report(nonFatal(error), 10)).toBe(false)
+        expect(reporter.report(nonFatal(error), 20)).toBe(false)
+        expect(reports.length).toBe(1)
+        expect(reporter.report(nonFatal(error), 1_000)).toBe(true)
+        expect(reports[1].repeats).toBe(2)
+    })
+
+    it("reports should be rate limited, except fatal ones", () => {
+        const reports = [] as CrashReport[]
+        const reporter = createCrashReporter({
+            send: (report) => reports.push(report),
+            maxReportsPerWindow: 2,
+            windowMilliseconds: 1_000
+        })
+        for (let i = 0; i < 5; i++) {
+            reporter.report(nonFatal(`error ${i}`), 0)
+        }
+        expect(reports.length).toBe(2)
+        expect(reporter.report({kind: "main", severity: "fatal", error: "boom"}, 0)).toBe(true)
+        expect(reports[2].severity).toBe("fatal")
+        expect(reports[2].suppressed).toBe(3)
+        reporter.report(nonFatal("error 5"), 1_000)
+        expect(reports[3].suppressed).toBe(0)
+    })
+
+    it("error event location should only be set if script is known", () => {
+        expect(errorEventLocation({filename: "https://cookies.com/index.js", lineno: 1, colno: 2}))
+            .toBe("https://cookies.com/index.js:1:2")
+        expect(errorEventLocation({filename: "", lineno: 0, colno: 0})).toBe(null)
+    })
+})
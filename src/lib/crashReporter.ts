@@ -0,0 +1,139 @@
+export type CrashKind = "error" | "unhandled-rejection" | "main"
+
+/** fatal crashes leave the extension unusable */
+export type CrashSeverity = "fatal" | "non-fatal"
+
+export type CrashReport = {
+    kind: CrashKind
+    severity: CrashSeverity
+    message: string
+    stack: string | null
+    /** script location ("url:line:column"), if known */
+    location: string | null
+    fingerprint: string
+    /** milliseconds since unix epoch */
+    timestamp: number
+    /**
+     * identical crashes that occurred since this
+     * crash was last reported (deduplicated)
+     */
+    repeats: number
+    /** reports dropped due to rate limiting, since last report */
+    suppressed: number
+}
+
+export type CrashDetails = {
+    kind: CrashKind
+    severity: CrashSeverity
+    error: unknown
+    location?: string | null
+}
+
+export type CrashReporterOptions = {
+    send: (report: CrashReport) => unknown
+    /** defaults to 10 */
+    maxReportsPerWindow?: number
+    /** defaults to one minute */
+    windowMilliseconds?: number
+}
+
+export type CrashReporter = {
+    /** returns false if crash was deduplicated or rate limited */
+    report: (details: CrashDetails, now?: number) => boolean
+}
+
+export const DEFAULT_MAX_CRASH_REPORTS_PER_WINDOW = 10
+export const DEFAULT_CRASH_REPORT_WINDOW_MILLISECONDS = 60_000
+
+const MAX_TRACKED_FINGERPRINTS = 100
+const MAX_MESSAGE_LENGTH = 1_000
+const MAX_STACK_LENGTH = 4_000
+
+const truncate = (text: string, maxLength: number) => {
+    return text.length > maxLength ? text.slice(0, maxLength) : text
+}
+
+const describeError = (error: unknown) => {
+    if (error instanceof Error) {
+        return {
+            message: `${error.name}: ${error.message}`,
+            stack: typeof error.stack === "string" ? error.stack : null
+        } as const
+    }
+    try {
+        const message = typeof error === "string" ? error : JSON.stringify(error)
+        return {message: message ?? String(error), stack: null} as const
+    } catch {
+        return {message: String(error), stack: null} as const
+    }
+}
+
+const firstStackFrame = (stack: string | null) => {
+    if (!stack) {
+        return ""
+    }
+    const frames = stack.split("\n").map((line) => line.trim())
+    return frames.find((line) => line.startsWith("at ") || line.includes("@")) || ""
+}
+
+/** location of an error event's script, if known */
+export const errorEventLocation = (event: Pick<ErrorEvent, "filename" | "lineno" | "colno">) => {
+    if (!event.filename) {
+        return null
+    }
+    return `${event.filename}:${event.lineno}:${event.colno}`
+}
+
+export const createCrashReporter = (options: CrashReporterOptions): CrashReporter => {
+    const {
+        send,
+        maxReportsPerWindow = DEFAULT_MAX_CRASH_REPORTS_PER_WINDOW,
+        windowMilliseconds = DEFAULT_CRASH_REPORT_WINDOW_MILLISECONDS
+    } = options
+    const reported = new Map<string, {windowStart: number, repeats: number}>()
+    let windowStart = -Infinity
+    let sent = 0
+    let suppressed = 0
+    return {
+        report: ({kind, severity, error, location = null}, now = Date.now()) => {
+            if (now - windowStart >= windowMilliseconds) {
+                windowStart = now
+                sent = 0
+            }
+            const {message, stack} = describeError(error)
+            const fingerprint = `${kind} ${message} ${firstStackFrame(stack) || location || ""}`
+            const previous = reported.get(fingerprint)
+            // crashes are reported at most once per window, other
+            // than fatal ones, as the app shell may need to act on them
+            if (previous?.windowStart === windowStart && severity !== "fatal") {
+                previous.repeats++
+                return false
+            }
+            if (sent >= maxReportsPerWindow && severity !== "fatal") {
+                suppressed++
+                return false
+            }
+            sent++
+            reported.delete(fingerprint)
+            reported.set(fingerprint, {windowStart, repeats: 0})
+            if (reported.size > MAX_TRACKED_FINGERPRINTS) {
+                const [oldest] = reported.keys()
+                reported.delete(oldest)
+            }
+            const crash: CrashReport = {
+                kind,
+                severity,
+                message: truncate(message, MAX_MESSAGE_LENGTH),
+                stack: stack ? truncate(stack, MAX_STACK_LENGTH) : null,
+                location,
+                fingerprint,
+                timestamp: now,
+                repeats: previous?.repeats || 0,
+                suppressed
+            }
+            suppressed = 0
+            send(crash)
+            return true
+        }
+    }
+}
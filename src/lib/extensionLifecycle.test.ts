@@ -0,0 +1,146 @@
+import {expect, it, describe} from "vitest"
+import {
+    createExtensionLifecycle,
+    lifecycleHooks,
+    LifecycleReport
+} from "./extensionLifecycle"
+
+const never = () => new Promise(() => {})
+
+describe("extension lifecycle hooks", () => {
+    it("hooks should be picked from modules and main's return value", () => {
+        const hooks = lifecycleHooks({
+            onExit: () => {}, 
+            onSuspend: "not a function", 
+            main: () => {}
+        })
+        expect(Object.keys(hooks)).toStrictEqual(["onExit"])
+        expect(lifecycleHooks(undefined)).toStrictEqual({})
+        expect(lifecycleHooks(1)).toStrictEqual({})
+    })
+
+    it("returned hooks should take precedence over exported ones", async () => {
+        const calls = [] as string[]
+        const lifecycle = createExtensionLifecycle()
+        lifecycle.attach(lifecycleHooks({
+            onSuspend: () => { calls.push("exported suspend") },
+            onResume: () => { calls.push("exported resume") }
+        }))
+        lifecycle.attach(lifecycleHooks({onSuspend: () => { calls.push("returned suspend") }}))
+        await lifecycle.suspend()
+        await lifecycle.resume()
+        expect(calls).toStrictEqual(["returned suspend", "exported resume"])
+    })
+})
+
+describe("extension lifecycle events", () => {
+    it("suspend and resume should only apply to running and suspended extensions", async () => {
+        const reports = [] as LifecycleReport[]
+        const lifecycle = createExtensionLifecycle({onReport: (report) => reports.push(report)})
+        expect((await lifecycle.suspend()).outcome).toBe("ignored")
+        lifecycle.attach({})
+        expect(lifecycle.state()).toBe("running")
+        expect((await lifecycle.resume()).outcome).toBe("ignored")
+        expect((await lifecycle.suspend()).outcome).toBe("no-hook")
+        expect(lifecycle.state()).toBe("suspended")
+        expect((await lifecycle.resume()).state).toBe("running")
+        expect(reports.length).toBe(4)
+    })
+
+    it("exit should run hook before tearing down extension", async () => {
+        const calls = [] as string[]
+        const lifecycle = createExtensionLifecycle()
+        lifecycle.setTeardown(() => { calls.push("teardown") })
+        lifecycle.attach({onExit: async () => { calls.push("exit") }})
+        const report = await lifecycle.exit()
+        expect(calls).toStrictEqual(["exit", "teardown"])
+        expect(report.outcome).toBe("completed")
+        expect(report.forcedTeardown).toBe(false)
+        expect(lifecycle.state()).toBe("exited")
+        expect((await lifecycle.exit()).outcome).toBe("ignored")
+        expect(calls.length).toBe(2)
+    })
+
+    it("extensions should be forcibly torn down if exit hook hangs or throws", async () => {
+        let tornDown = 0
+        const hanging = createExtensionLifecycle({timeoutMilliseconds: 5})
+        hanging.setTeardown(() => { tornDown++ })
+        hanging.attach({onExit: never})
+        const timedOut = await hanging.exit()
+        expect(timedOut.outcome).toBe("timeout")
+        expect(timedOut.forcedTeardown).toBe(true)
+
+        const throwing = createExtensionLifecycle()
+        throwing.setTeardown(() => { tornDown++ })
+        throwing.attach({onExit: () => { throw new Error("save failed") }})
+        const failed = await throwing.exit()
+        expect(failed.outcome).toBe("error")
+        expect(failed.error).toBe("save failed")
+        expect(failed.forcedTeardown).toBe(true)
+        expect(tornDown).toBe(2)
+    })
+
+    it("events should be handled in order received", async () => {
+        const lifecycle = createExtensionLifecycle({timeoutMilliseconds: 5})
+        lifecycle.attach({onSuspend: never})
+        const [suspended, exited] = await Promise.all([
+            lifecycle.suspend(), 
+            lifecycle.exit()
+        ])
+        expect(suspended.outcome).toBe("timeout")
+        expect(exited.outcome).toBe("no-hook")
+        expect(lifecycle.state()).toBe("exited")
+    })
+
+    it("restart should exit extension before relaunching it", async () => {
+        const calls = [] as string[]
+        const lifecycle = createExtensionLifecycle()
+        expect((await lifecycle.restart()).outcome).toBe("ignored")
+        lifecycle.setTeardown(() => { calls.push("teardown") })
+        lifecycle.setRelaunch(() => { calls.push("relaunch") })
+        lifecycle.attach({onExit: () => { calls.push("exit") }})
+        const report = await lifecycle.restart()
+        expect(report.outcome).toBe("completed")
+        // extension runs again in a new document
+        expect(report.state).toBe("exited")
+        expect(calls).toStrictEqual(["exit", "teardown", "relaunch"])
+        expect((await lifecycle.restart()).outcome).toBe("completed")
+        expect(calls.slice(3)).toStrictEqual(["relaunch"])
+    })
+
+    it("relaunch should not be timed like a hook", async () => {
+        const lifecycle = createExtensionLifecycle({timeoutMilliseconds: 5})
+        let relaunched = false
+        lifecycle.setRelaunch(() => new Promise<void>((resolve) => {
+            setTimeout(() => {
+                relaunched = true
+                resolve()
+            }, 20)
+        }))
+        const report = await lifecycle.restart()
+        expect(report.outcome).toBe("no-hook")
+        expect(relaunched).toBe(false)
+        lifecycle.setRelaunch(() => { throw new Error("reload blocked") })
+        const failed = await lifecycle.restart()
+        expect(failed.outcome).toBe("error")
+        expect(failed.error).toBe("reload blocked")
+    })
+
+    it("hooks attached after exit should be ignored", async () => {
+        const calls = [] as string[]
+        const lifecycle = createExtensionLifecycle()
+        expect((await lifecycle.exit()).outcome).toBe("no-hook")
+        lifecycle.attach({onSuspend: () => { calls.push("suspend") }})
+        expect(lifecycle.state()).toBe("exited")
+        expect((await lifecycle.suspend()).outcome).toBe("ignored")
+        expect(calls.length).toBe(0)
+    })
+
+    it("main failures should be reported", () => {
+        const reports = [] as LifecycleReport[]
+        const lifecycle = createExtensionLifecycle({onReport: (report) => reports.push(report)})
+        lifecycle.mainFailed(new Error("boom"))
+        expect(reports[0].event).toBe("main")
+        expect(reports[0].error).toBe("boom")
+    })
+})
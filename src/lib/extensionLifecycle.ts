@@ -0,0 +1,219 @@
+export type LifecycleHook = () => unknown
+
+/**
+ * Extensions can export these from their entry, or
+ * return them from main (returned hooks take precedence).
+ * Restarts run exit, then boot extension in a new document.
+ */
+export type LifecycleHooks = {
+    /** last chance to save state, extension is torn down afterwards */
+    onExit?: LifecycleHook
+    onSuspend?: LifecycleHook
+    onResume?: LifecycleHook
+}
+
+export type LifecycleState = "starting" | "running" | "suspended" | "exited"
+
+export type LifecycleEvent = "exit" | "suspend" | "resume" | "restart" | "main"
+
+export type LifecycleOutcome = (
+    "completed"
+    | "no-hook"
+    | "timeout"
+    | "error"
+    /** event does not apply to current state */
+    | "ignored"
+)
+
+export type LifecycleReport = {
+    event: LifecycleEvent
+    outcome: LifecycleOutcome
+    /** state after event was handled */
+    state: LifecycleState
+    /** true if extension was torn down without its exit hook completing */
+    forcedTeardown: boolean
+    milliseconds: number
+    error: string | null
+}
+
+export type ExtensionLifecycle = {
+    state: () => LifecycleState
+    /** merges hooks with previously attached ones, ignored once exited */
+    attach: (hooks: LifecycleHooks) => void
+    /** called once extension exits, after its exit hook */
+    setTeardown: (teardown: () => unknown) => void
+    /** 
+     * called on restart once extension has exited, should 
+     * replace the document (e.g. reload it). It isn't awaited
+     */
+    setRelaunch: (relaunch: () => unknown) => void
+    exit: () => Promise<LifecycleReport>
+    /** exits extension (if it hasn't already) and relaunches it */
+    restart: () => Promise<LifecycleReport>
+    suspend: () => Promise<LifecycleReport>
+    resume: () => Promise<LifecycleReport>
+    /** reports a rejection or error thrown by main */
+    mainFailed: (error: unknown) => LifecycleReport
+}
+
+export type ExtensionLifecycleOptions = {
+    /** how long hooks have to complete, before they are abandoned */
+    timeoutMilliseconds?: number
+    onReport?: (report: LifecycleReport) => unknown
+}
+
+export const DEFAULT_LIFECYCLE_TIMEOUT_MILLISECONDS = 5_000
+
+const HOOK_NAMES = ["onExit", "onSuspend", "onResume"] as const
+
+/** picks lifecycle hooks from an extension module or main's return value */
+export const lifecycleHooks = (source: unknown): LifecycleHooks => {
+    if (typeof source !== "object" || source === null) {
+        return {}
+    }
+    const hooks: LifecycleHooks = {}
+    for (const name of HOOK_NAMES) {
+        const hook = (source as Record<string, unknown>)[name]
+        if (typeof hook === "function") {
+            hooks[name] = hook.bind(source) as LifecycleHook
+        }
+    }
+    return hooks
+}
+
+const errorMessage = (error: unknown) => {
+    return error instanceof Error ? error.message : String(error)
+}
+
+const runHook = async (hook: LifecycleHook | undefined, timeoutMilliseconds: number) => {
+    if (!hook) {
+        return {outcome: "no-hook", error: null} as const
+    }
+    let timeoutId: ReturnType<typeof setTimeout> | null = null
+    const timeout = new Promise<"timeout">((resolve) => {
+        timeoutId = setTimeout(() => resolve("timeout"), timeoutMilliseconds)
+    })
+    try {
+        const result = await Promise.race([
+            Promise.resolve().then(hook).then(() => "completed" as const),
+            timeout
+        ])
+        return {outcome: result, error: null} as const
+    } catch (error) {
+        return {outcome: "error", error: errorMessage(error)} as const
+    } finally {
+        if (timeoutId !== null) {
+            clearTimeout(timeoutId)
+        }
+    }
+}
+
+export const createExtensionLifecycle = (
+    options: ExtensionLifecycleOptions = {}
+): ExtensionLifecycle => {
+    const {
+        timeoutMilliseconds = DEFAULT_LIFECYCLE_TIMEOUT_MILLISECONDS,
+        onReport = () => {}
+    } = options
+    let state: LifecycleState = "starting"
+    let hooks: LifecycleHooks = {}
+    let teardown: () => unknown = () => {}
+    let relaunch: (() => unknown) | undefined
+    // events are handled one at a time, in order received
+    let pending: Promise<unknown> = Promise.resolve()
+
+    const report = (
+        event: LifecycleEvent,
+        outcome: LifecycleOutcome,
+        start: number,
+        error: string | null = null,
+        forcedTeardown = false
+    ) => {
+        const result: LifecycleReport = {
+            event,
+            outcome,
+            state,
+            forcedTeardown,
+            milliseconds: Date.now() - start,
+            error
+        }
+        onReport(result)
+        return result
+    }
+
+    const enqueue = (handler: () => Promise<LifecycleReport>) => {
+        const result = pending.then(handler)
+        pending = result.catch(() => {})
+        return result
+    }
+
+    const shutdown = async () => {
+        const {outcome, error} = await runHook(hooks.onExit, timeoutMilliseconds)
+        state = "exited"
+        hooks = {}
+        const forced = outcome === "timeout" || outcome === "error"
+        try {
+            await teardown()
+        } catch (teardownError) {
+            return {outcome: "error", error: errorMessage(teardownError), forced} as const
+        }
+        return {outcome, error, forced} as const
+    }
+
+    const transition = (
+        event: "suspend" | "resume",
+        from: LifecycleState,
+        to: LifecycleState,
+        hook: keyof LifecycleHooks
+    ) => enqueue(async () => {
+        const start = Date.now()
+        if (state !== from) {
+            return report(event, "ignored", start)
+        }
+        const {outcome, error} = await runHook(hooks[hook], timeoutMilliseconds)
+        state = to
+        return report(event, outcome, start, error)
+    })
+
+    return {
+        state: () => state,
+        attach: (newHooks) => {
+            // main may resolve after an exit requested during boot
+            if (state === "exited") {
+                return
+            }
+            hooks = {...hooks, ...newHooks}
+            if (state === "starting") {
+                state = "running"
+            }
+        },
+        setTeardown: (handler) => { teardown = handler },
+        setRelaunch: (handler) => { relaunch = handler },
+        exit: () => enqueue(async () => {
+            const start = Date.now()
+            if (state === "exited") {
+                return report("exit", "ignored", start)
+            }
+            const {outcome, error, forced} = await shutdown()
+            return report("exit", outcome, start, error, forced)
+        }),
+        restart: () => enqueue(async () => {
+            const start = Date.now()
+            if (!relaunch) {
+                return report("restart", "ignored", start)
+            }
+            const exited = state === "exited"
+                ? {outcome: "completed", error: null, forced: false} as const
+                : await shutdown()
+            try {
+                relaunch()
+            } catch (error) {
+                return report("restart", "error", start, errorMessage(error), exited.forced)
+            }
+            return report("restart", exited.outcome, start, exited.error, exited.forced)
+        }),
+        suspend: () => transition("suspend", "running", "suspended", "onSuspend"),
+        resume: () => transition("resume", "suspended", "running", "onResume"),
+        mainFailed: (error) => report("main", "error", Date.now(), errorMessage(error))
+    }
+}
@@ -1,9 +1,22 @@
 import {expect, it, describe} from "vitest"
 import {fetchCore} from "./fetchCore"
+import {createWorkerCache, ResponseStore, workerCacheKey} from "./workerCache"
+import {createRequestQueue, QueuedRequest} from "./requestQueue"
 import {
     serviceWorkerCacheHitHeader as cacheHitHeader,
     serviceWorkerErrorCatchHeader as ErrorHeader,
-    serviceWorkerPolicies as policies
+    serviceWorkerPolicies as policies,
+    serviceWorkerNetworkTimeoutHeader as networkTimeoutHeader,
+    serviceWorkerTimeoutFallbackHeader as timeoutFallbackHeader,
+    serviceWorkerQueuedRequestHeader as queuedRequestHeader,
+    serviceWorkerErrorCodeHeader as errorCodeHeader,
+    serviceWorkerErrorStageHeader as errorStageHeader,
+    NETWORK_ERROR,
+    CACHE_MISS,
+    NETWORK_ONLY_POLICY,
+    CACHE_ONLY_POLICY,
+    ProblemDetails,
+    StaleFileNotice
 } from "./serviceWorkerMeta"
 
 const requestInfoToUrl = (request: RequestInfo | URL) => {
@@ -67,6 +80,42 @@ const createFileCache = ({
     }] as const
 }
 
+const sized = (text: string, headers: Record<string, string> = {}) => new Response(text, {
+    status: 200, 
+    headers: {...headers, "content-length": text.length.toString()}
+})
+
+const createWorkerCacheLayer = (entries = new Map<string, Response>()) => {
+    const store: ResponseStore = {
+        match: async (url) => entries.get(url)?.clone(),
+        put: async (url, response) => { entries.set(url, response) },
+        delete: async (url) => entries.delete(url),
+        keys: async () => [...entries.keys()].map((url) => ({url}))
+    }
+    const workerCache = createWorkerCache({
+        openStore: async () => store,
+        maxBytes: 1_000
+    })
+    return {workerCache, entries} as const
+}
+
+const createQueue = (networkFetch: typeof fetch) => {
+    const entries = [] as QueuedRequest[]
+    const requestQueue = createRequestQueue({
+        networkFetch,
+        store: {
+            add: async (entry) => {
+                entries.push({id: entries.length + 1, ...entry})
+                return entries.length
+            },
+            all: async () => [...entries],
+            count: async (clientId) => entries.filter((entry) => entry.clientId === clientId).length,
+            remove: async (id) => entries.splice(entries.findIndex((entry) => entry.id === id), 1)
+        }
+    })
+    return {requestQueue, entries} as const
+}
+
 const fetchEvent = (url: string, headers: Record<string, string> = {}) => {
     const output = {
         response: null as null | PromiseLike<Response> | Response
@@ -595,4 +644,695 @@ describe("fetch event behaviour with all other origins", () => {
         expect(networkCache.accessLog.some((log) => log.url === requestUrl)).toBe(true)
         expect(clientCache.accessLog.some((log) => log.url === requestUrl)).toBe(true)
     })
+
+    it("stale-while-revalidate requests should return client cached file and revalidate from network in background", async () => {
+        const requestUrl = "https://cookies.com/index,js"
+        const [adaptors, caches] = createFileCache({
+            networkFileHandlers: {
+                [requestUrl]: () => {
+                    return new Response("new", {status: 200, headers: {etag: "2"}})
+                }
+            },
+            clientFileHandlers: {
+                [requestUrl]: () => {
+                    return new Response("old", {status: 200, headers: {etag: "1"}})
+                }
+            }
+        })
+        const {networkCache, clientCache} = caches
+        const {event} = fetchEvent(requestUrl, policies.staleWhileRevalidate)
+        const backgroundTasks = [] as Promise<unknown>[]
+        const notices = [] as StaleFileNotice[]
+        const res = await fetchCore(
+            event.request,
+            adaptors.networkFetch,
+            adaptors.fileCache,
+            event.clientId,
+            console.log,
+            false,
+            {
+                waitUntil: (promise) => backgroundTasks.push(promise),
+                onStaleFile: (notice) => notices.push(notice)
+            }
+        )
+        expect(res.status).toBe(200)
+        expect(await res.text()).toBe("old")
+        expect(res.headers.get(cacheHitHeader.key)).toBe(cacheHitHeader.value)
+        expect(clientCache.accessLog.some((log) => log.url === requestUrl)).toBe(true)
+        expect(backgroundTasks.length).toBe(1)
+        await Promise.all(backgroundTasks)
+        expect(networkCache.accessLog.some((log) => log.url === requestUrl)).toBe(true)
+        expect(notices.length).toBe(1)
+        expect(notices[0].url).toBe(requestUrl)
+        expect(notices[0].etag).toBe("2")
+    })
+
+    it("stale-while-revalidate requests should not signal stale file if network copy has same etag as cached copy", async () => {
+        const requestUrl = "https://cookies.com/index,js"
+        const [adaptors] = createFileCache({
+            networkFileHandlers: {
+                [requestUrl]: () => {
+                    return new Response("", {status: 200, headers: {etag: "1"}})
+                }
+            },
+            clientFileHandlers: {
+                [requestUrl]: () => {
+                    return new Response("", {status: 200, headers: {etag: "1"}})
+                }
+            }
+        })
+        const {event} = fetchEvent(requestUrl, policies.staleWhileRevalidate)
+        const backgroundTasks = [] as Promise<unknown>[]
+        const notices = [] as StaleFileNotice[]
+        const res = await fetchCore(
+            event.request,
+            adaptors.networkFetch,
+            adaptors.fileCache,
+            event.clientId,
+            console.log,
+            false,
+            {
+                waitUntil: (promise) => backgroundTasks.push(promise),
+                onStaleFile: (notice) => notices.push(notice)
+            }
+        )
+        expect(res.status).toBe(200)
+        await Promise.all(backgroundTasks)
+        expect(notices.length).toBe(0)
+    })
+
+    it("stale-while-revalidate requests should not signal stale file if background network request fails", async () => {
+        const requestUrl = "https://cookies.com/index,js"
+        const [adaptors] = createFileCache({
+            networkFileHandlers: {
+                [requestUrl]: () => {
+                    throw new Error("network error")
+                    return new Response("", {status: 200})
+                }
+            },
+            clientFileHandlers: {
+                [requestUrl]: () => {
+                    return new Response("", {status: 200})
+                }
+            }
+        })
+        const {event} = fetchEvent(requestUrl, policies.staleWhileRevalidate)
+        const backgroundTasks = [] as Promise<unknown>[]
+        const notices = [] as StaleFileNotice[]
+        const res = await fetchCore(
+            event.request,
+            adaptors.networkFetch,
+            adaptors.fileCache,
+            event.clientId,
+            console.log,
+            false,
+            {
+                waitUntil: (promise) => backgroundTasks.push(promise),
+                onStaleFile: (notice) => notices.push(notice)
+            }
+        )
+        expect(res.status).toBe(200)
+        expect(res.headers.get(cacheHitHeader.key)).toBe(cacheHitHeader.value)
+        await Promise.all(backgroundTasks)
+        expect(notices.length).toBe(0)
+    })
+
+    it("stale-while-revalidate requests should return network response if file is not found in client cache", async () => {
+        const requestUrl = "https://cookies.com/index,js"
+        const [adaptors, caches] = createFileCache({
+            networkFileHandlers: {
+                [requestUrl]: () => {
+                    return new Response("", {status: 200})
+                }
+            },
+        })
+        const {networkCache, clientCache} = caches
+        const {event} = fetchEvent(requestUrl, policies.staleWhileRevalidate)
+        const backgroundTasks = [] as Promise<unknown>[]
+        const res = await fetchCore(
+            event.request,
+            adaptors.networkFetch,
+            adaptors.fileCache,
+            event.clientId,
+            console.log,
+            false,
+            {waitUntil: (promise) => backgroundTasks.push(promise)}
+        )
+        expect(res.status).toBe(200)
+        expect(res.headers.has(cacheHitHeader.key)).toBe(false)
+        expect(backgroundTasks.length).toBe(0)
+        expect(networkCache.accessLog.some((log) => log.url === requestUrl)).toBe(true)
+        expect(clientCache.accessLog.some((log) => log.url === requestUrl)).toBe(true)
+    })
+
+    it("network first with timeout should return network response if it arrives before timeout", async () => {
+        const requestUrl = "https://cookies.com/index,js"
+        const [adaptors, caches] = createFileCache({
+            networkFileHandlers: {
+                [requestUrl]: () => {
+                    return new Response("", {status: 200})
+                }
+            },
+            clientFileHandlers: {
+                [requestUrl]: () => {
+                    return new Response("", {status: 200})
+                }
+            }
+        })
+        const {networkCache, clientCache} = caches
+        const {event} = fetchEvent(requestUrl, policies.networkFirstTimeout)
+        const res = await fetchCore(
+            event.request,
+            adaptors.networkFetch,
+            adaptors.fileCache,
+            event.clientId,
+            console.log,
+            false
+        )
+        expect(res.status).toBe(200)
+        expect(res.headers.has(cacheHitHeader.key)).toBe(false)
+        expect(networkCache.accessLog.some((log) => log.url === requestUrl)).toBe(true)
+        expect(clientCache.accessLog.length).toBe(0)
+    })
+
+    it("network first with timeout should abort network request and return client cached file marked as timeout fallback if network takes longer than timeout header", async () => {
+        const requestUrl = "https://cookies.com/index,js"
+        const [adaptors, caches] = createFileCache({
+            clientFileHandlers: {
+                [requestUrl]: () => {
+                    return new Response("", {status: 200})
+                }
+            }
+        })
+        const {clientCache} = caches
+        const {event} = fetchEvent(requestUrl, {
+            ...policies.networkFirstTimeout,
+            [networkTimeoutHeader]: "10"
+        })
+        let aborted = false
+        const hangingFetch: typeof fetch = (_, init) => {
+            init?.signal?.addEventListener("abort", () => { aborted = true })
+            return new Promise(() => {})
+        }
+        const res = await fetchCore(
+            event.request,
+            hangingFetch,
+            adaptors.fileCache,
+            event.clientId,
+            console.log,
+            false
+        )
+        expect(res.status).toBe(200)
+        expect(aborted).toBe(true)
+        expect(res.headers.get(cacheHitHeader.key)).toBe(cacheHitHeader.value)
+        expect(res.headers.get(timeoutFallbackHeader.key)).toBe(timeoutFallbackHeader.value)
+        expect(clientCache.accessLog.some((log) => log.url === requestUrl)).toBe(true)
+    })
+
+    it("network first with timeout should use default timeout if timeout header is not specified", async () => {
+        const requestUrl = "https://cookies.com/index,js"
+        const [adaptors] = createFileCache({
+            clientFileHandlers: {
+                [requestUrl]: () => {
+                    return new Response("", {status: 200})
+                }
+            }
+        })
+        const {event} = fetchEvent(requestUrl, policies.networkFirstTimeout)
+        const hangingFetch: typeof fetch = () => new Promise(() => {})
+        const res = await fetchCore(
+            event.request,
+            hangingFetch,
+            adaptors.fileCache,
+            event.clientId,
+            console.log,
+            false,
+            {networkTimeout: 10}
+        )
+        expect(res.status).toBe(200)
+        expect(res.headers.get(timeoutFallbackHeader.key)).toBe(timeoutFallbackHeader.value)
+    })
+
+    it("network first with timeout should return 500 if network times out and file is not found in client cache", async () => {
+        const requestUrl = "https://cookies.com/index,js"
+        const [adaptors, caches] = createFileCache({})
+        const {clientCache} = caches
+        const {event} = fetchEvent(requestUrl, {
+            ...policies.networkFirstTimeout,
+            [networkTimeoutHeader]: "10"
+        })
+        const hangingFetch: typeof fetch = () => new Promise(() => {})
+        const res = await fetchCore(
+            event.request,
+            hangingFetch,
+            adaptors.fileCache,
+            event.clientId,
+            console.log,
+            false
+        )
+        expect(res.status).toBe(500)
+        expect(res.headers.has(ErrorHeader)).toBe(true)
+        expect(clientCache.accessLog.some((log) => log.url === requestUrl)).toBe(true)
+    })
+
+    it("network first with timeout should return client cached file without timeout fallback header if network error occurs", async () => {
+        const requestUrl = "https://cookies.com/index,js"
+        const [adaptors] = createFileCache({
+            networkFileHandlers: {
+                [requestUrl]: () => {
+                    throw new Error("network error")
+                    return new Response("", {status: 200})
+                }
+            },
+            clientFileHandlers: {
+                [requestUrl]: () => {
+                    return new Response("", {status: 200})
+                }
+            }
+        })
+        const {event} = fetchEvent(requestUrl, policies.networkFirstTimeout)
+        const res = await fetchCore(
+            event.request,
+            adaptors.networkFetch,
+            adaptors.fileCache,
+            event.clientId,
+            console.log,
+            false
+        )
+        expect(res.status).toBe(200)
+        expect(res.headers.get(cacheHitHeader.key)).toBe(cacheHitHeader.value)
+        expect(res.headers.has(timeoutFallbackHeader.key)).toBe(false)
+    })
+
+    it("worker cache should be checked before client cache if provided", async () => {
+        const requestUrl = "https://cookies.com/index,js"
+        const [adaptors, caches] = createFileCache({
+            clientFileHandlers: {
+                [requestUrl]: () => new Response("client", {status: 200})
+            }
+        })
+        const {networkCache, clientCache} = caches
+        const {workerCache} = createWorkerCacheLayer()
+        await workerCache.put(requestUrl, "", new Response("worker", {status: 200}))
+        const {event} = fetchEvent(requestUrl, policies.cacheFirst)
+        const res = await fetchCore(
+            event.request,
+            adaptors.networkFetch,
+            adaptors.fileCache,
+            event.clientId,
+            console.log,
+            false,
+            {workerCache}
+        )
+        expect(res.status).toBe(200)
+        expect(await res.text()).toBe("worker")
+        expect(res.headers.get(cacheHitHeader.key)).toBe(cacheHitHeader.value)
+        expect(clientCache.accessLog.length).toBe(0)
+        expect(networkCache.accessLog.length).toBe(0)
+    })
+
+    it("worker cache should be populated with successful client cache responses", async () => {
+        const requestUrl = "https://cookies.com/index,js"
+        const [adaptors, caches] = createFileCache({
+            clientFileHandlers: {
+                [requestUrl]: () => sized("client")
+            }
+        })
+        const {clientCache} = caches
+        const {workerCache, entries} = createWorkerCacheLayer()
+        const backgroundTasks = [] as Promise<unknown>[]
+        const options = {
+            workerCache, 
+            waitUntil: (promise: Promise<unknown>) => backgroundTasks.push(promise)
+        }
+        const first = await fetchCore(
+            fetchEvent(requestUrl, policies.cacheFirst).event.request,
+            adaptors.networkFetch,
+            adaptors.fileCache,
+            "",
+            console.log,
+            false,
+            options
+        )
+        expect(await first.text()).toBe("client")
+        await Promise.all(backgroundTasks)
+        expect(entries.has(workerCacheKey(requestUrl, ""))).toBe(true)
+        const second = await fetchCore(
+            fetchEvent(requestUrl, policies.cacheFirst).event.request,
+            adaptors.networkFetch,
+            adaptors.fileCache,
+            "",
+            console.log,
+            false,
+            options
+        )
+        expect(await second.text()).toBe("client")
+        expect(clientCache.accessLog.length).toBe(1)
+    })
+
+    it("worker cache should be populated with successful network responses, but not with error or network only responses", async () => {
+        const okUrl = "https://cookies.com/index,js"
+        const errorUrl = "https://cookies.com/error.js"
+        const networkOnlyUrl = "https://cookies.com/live.json"
+        const [adaptors] = createFileCache({
+            networkFileHandlers: {
+                [okUrl]: () => sized("network"),
+                [errorUrl]: () => new Response("", {status: 403}),
+                [networkOnlyUrl]: () => sized("live"),
+            }
+        })
+        const {workerCache, entries} = createWorkerCacheLayer()
+        const backgroundTasks = [] as Promise<unknown>[]
+        const options = {
+            workerCache, 
+            waitUntil: (promise: Promise<unknown>) => backgroundTasks.push(promise)
+        }
+        const requests = [
+            [okUrl, policies.networkFirst],
+            [errorUrl, policies.networkFirst],
+            [networkOnlyUrl, policies.networkOnly],
+        ] as const
+        for (const [url, policy] of requests) {
+            await fetchCore(
+                fetchEvent(url, policy).event.request,
+                adaptors.networkFetch,
+                adaptors.fileCache,
+                "",
+                console.log,
+                false,
+                options
+            )
+        }
+        await Promise.all(backgroundTasks)
+        expect(entries.has(workerCacheKey(okUrl, ""))).toBe(true)
+        expect(entries.has(workerCacheKey(errorUrl, ""))).toBe(false)
+        expect(entries.has(workerCacheKey(networkOnlyUrl, ""))).toBe(false)
+    })
+
+    it("worker cache should not be populated with responses of unknown or too large length", async () => {
+        const unsizedUrl = "https://cookies.com/unsized.js"
+        const largeUrl = "https://cookies.com/large.js"
+        const [adaptors] = createFileCache({
+            clientFileHandlers: {
+                [unsizedUrl]: () => new Response("unsized", {status: 200}),
+                [largeUrl]: () => sized("x".repeat(1_001)),
+            }
+        })
+        const {workerCache, entries} = createWorkerCacheLayer()
+        const backgroundTasks = [] as Promise<unknown>[]
+        for (const url of [unsizedUrl, largeUrl]) {
+            const res = await fetchCore(
+                fetchEvent(url, policies.cacheFirst).event.request,
+                adaptors.networkFetch,
+                adaptors.fileCache,
+                "",
+                console.log,
+                false,
+                {workerCache, waitUntil: (promise) => backgroundTasks.push(promise)}
+            )
+            expect(res.status).toBe(200)
+        }
+        expect(backgroundTasks.length).toBe(0)
+        expect(entries.size).toBe(0)
+    })
+
+    it("worker cache entries of a previous worker should be revalidated against client cache", async () => {
+        const currentUrl = "https://cookies.com/current.js"
+        const outdatedUrl = "https://cookies.com/outdated.js"
+        const [adaptors, caches] = createFileCache({
+            clientFileHandlers: {
+                [currentUrl]: () => sized("current", {etag: "1"}),
+                [outdatedUrl]: () => sized("updated", {etag: "2"}),
+            }
+        })
+        const {clientCache} = caches
+        const previous = createWorkerCacheLayer()
+        await previous.workerCache.put(currentUrl, "", sized("current", {etag: "1"}))
+        await previous.workerCache.put(outdatedUrl, "", sized("outdated", {etag: "1"}))
+        const {workerCache} = createWorkerCacheLayer(previous.entries)
+        const backgroundTasks = [] as Promise<unknown>[]
+        const request = (url: string) => fetchCore(
+            fetchEvent(url, policies.cacheFirst).event.request,
+            adaptors.networkFetch,
+            adaptors.fileCache,
+            "",
+            console.log,
+            false,
+            {workerCache, waitUntil: (promise) => backgroundTasks.push(promise)}
+        )
+        expect(await (await request(currentUrl)).text()).toBe("current")
+        // outdated entry is replaced by client copy
+        expect(await (await request(outdatedUrl)).text()).toBe("updated")
+        await Promise.all(backgroundTasks)
+        expect(clientCache.accessLog.length).toBe(2)
+        // entries are only revalidated once per worker
+        expect(await (await request(currentUrl)).text()).toBe("current")
+        expect(await (await request(outdatedUrl)).text()).toBe("updated")
+        expect(clientCache.accessLog.length).toBe(2)
+    })
+
+    it("range requests for client cached files should return partial content", async () => {
+        const requestUrl = "https://cookies.com/video.mp4"
+        const [adaptors, caches] = createFileCache({
+            clientFileHandlers: {
+                [requestUrl]: () => new Response("0123456789", {
+                    status: 200, 
+                    headers: {"content-length": "10"}
+                })
+            }
+        })
+        const {networkCache} = caches
+        const {event} = fetchEvent(requestUrl, {
+            ...policies.cacheFirst, 
+            range: "bytes=3-4"
+        })
+        const res = await fetchCore(
+            event.request,
+            adaptors.networkFetch,
+            adaptors.fileCache,
+            event.clientId,
+            console.log,
+            false
+        )
+        expect(res.status).toBe(206)
+        expect(res.headers.get("content-range")).toBe("bytes 3-4/10")
+        expect(await res.text()).toBe("34")
+        expect(networkCache.accessLog.length).toBe(0)
+    })
+
+    it("range requests should be passed through to network, if file is not in client cache", async () => {
+        const requestUrl = "https://cookies.com/video.mp4"
+        const [adaptors] = createFileCache({
+            networkFileHandlers: {
+                [requestUrl]: () => new Response("0123456789", {status: 200})
+            }
+        })
+        const {event} = fetchEvent(requestUrl, {
+            ...policies.cacheFirst, 
+            range: "bytes=3-4"
+        })
+        const res = await fetchCore(
+            event.request,
+            adaptors.networkFetch,
+            adaptors.fileCache,
+            event.clientId,
+            console.log,
+            false
+        )
+        expect(res.status).toBe(200)
+        expect(await res.text()).toBe("0123456789")
+    })
+
+    it("conditional requests matching client cached file should return 304 without body", async () => {
+        const requestUrl = "https://cookies.com/index,js"
+        const [adaptors] = createFileCache({
+            clientFileHandlers: {
+                [requestUrl]: () => new Response("body", {
+                    status: 200, 
+                    headers: {etag: "\"v1\""}
+                })
+            }
+        })
+        const {event} = fetchEvent(requestUrl, {
+            ...policies.cacheFirst, 
+            "if-none-match": "\"v1\""
+        })
+        const res = await fetchCore(
+            event.request,
+            adaptors.networkFetch,
+            adaptors.fileCache,
+            event.clientId,
+            console.log,
+            false
+        )
+        expect(res.status).toBe(304)
+        expect(res.body).toBe(null)
+        expect(res.headers.get("etag")).toBe("\"v1\"")
+        expect(res.headers.get(cacheHitHeader.key)).toBe(cacheHitHeader.value)
+    })
+
+    it("conditional requests not matching client cached file should return full file", async () => {
+        const requestUrl = "https://cookies.com/index,js"
+        const [adaptors] = createFileCache({
+            clientFileHandlers: {
+                [requestUrl]: () => new Response("body", {
+                    status: 200, 
+                    headers: {etag: "\"v2\""}
+                })
+            }
+        })
+        const {event} = fetchEvent(requestUrl, {
+            ...policies.cacheFirst, 
+            "if-none-match": "\"v1\""
+        })
+        const res = await fetchCore(
+            event.request,
+            adaptors.networkFetch,
+            adaptors.fileCache,
+            event.clientId,
+            console.log,
+            false
+        )
+        expect(res.status).toBe(200)
+        expect(await res.text()).toBe("body")
+    })
+
+    it("network only queue requests should be queued and return 202 if network error occurs", async () => {
+        const requestUrl = "https://cookies.com/save"
+        const [adaptors, caches] = createFileCache({
+            networkFileHandlers: {
+                [requestUrl]: () => {
+                    throw new Error("network error")
+                    return new Response("", {status: 200})
+                }
+            }
+        })
+        const {clientCache} = caches
+        const {requestQueue, entries} = createQueue(adaptors.networkFetch)
+        const request = new Request(requestUrl, {
+            method: "POST", 
+            body: "data", 
+            headers: policies.networkOnlyQueue
+        })
+        const res = await fetchCore(
+            request,
+            adaptors.networkFetch,
+            adaptors.fileCache,
+            "",
+            console.log,
+            false,
+            {requestQueue}
+        )
+        expect(res.status).toBe(202)
+        expect(res.headers.has(queuedRequestHeader)).toBe(true)
+        expect(entries.length).toBe(1)
+        expect(new TextDecoder().decode(entries[0].body!)).toBe("data")
+        expect(clientCache.accessLog.length).toBe(0)
+    })
+
+    it("network only queue requests should return network response if network is available", async () => {
+        const requestUrl = "https://cookies.com/save"
+        const [adaptors] = createFileCache({
+            networkFileHandlers: {
+                [requestUrl]: () => new Response("", {status: 201})
+            }
+        })
+        const {requestQueue, entries} = createQueue(adaptors.networkFetch)
+        const request = new Request(requestUrl, {
+            method: "POST", 
+            body: "data", 
+            headers: policies.networkOnlyQueue
+        })
+        const res = await fetchCore(
+            request,
+            adaptors.networkFetch,
+            adaptors.fileCache,
+            "",
+            console.log,
+            false,
+            {requestQueue}
+        )
+        expect(res.status).toBe(201)
+        expect(entries.length).toBe(0)
+    })
+
+    it("network only queue GET requests should not be queued", async () => {
+        const requestUrl = "https://cookies.com/save"
+        const [adaptors] = createFileCache({
+            networkFileHandlers: {
+                [requestUrl]: () => {
+                    throw new Error("network error")
+                    return new Response("", {status: 200})
+                }
+            }
+        })
+        const {requestQueue, entries} = createQueue(adaptors.networkFetch)
+        const {event} = fetchEvent(requestUrl, policies.networkOnlyQueue)
+        const res = await fetchCore(
+            event.request,
+            adaptors.networkFetch,
+            adaptors.fileCache,
+            "",
+            console.log,
+            false,
+            {requestQueue}
+        )
+        expect(res.status).toBe(500)
+        expect(res.headers.has(ErrorHeader)).toBe(true)
+        expect(entries.length).toBe(0)
+    })
+
+    it("network errors should return problem details with code, stage, policy and url", async () => {
+        const requestUrl = "https://cookies.com/index,js"
+        const [adaptors] = createFileCache({
+            networkFileHandlers: {
+                [requestUrl]: () => {
+                    throw new Error("network error")
+                    return new Response("", {status: 200})
+                }
+            }
+        })
+        const {event} = fetchEvent(requestUrl, policies.networkOnly)
+        const res = await fetchCore(
+            event.request,
+            adaptors.networkFetch,
+            adaptors.fileCache,
+            event.clientId,
+            console.log,
+            false
+        )
+        expect(res.status).toBe(500)
+        expect(res.headers.get("content-type")).toBe("application/problem+json")
+        expect(res.headers.get(errorCodeHeader)).toBe(NETWORK_ERROR)
+        expect(res.headers.get(errorStageHeader)).toBe("network")
+        const problem = await res.json() as ProblemDetails
+        expect(problem.status).toBe(500)
+        expect(problem.code).toBe(NETWORK_ERROR)
+        expect(problem.stage).toBe("network")
+        expect(problem.policy).toBe(NETWORK_ONLY_POLICY)
+        expect(problem.url).toBe(requestUrl)
+        expect(problem.detail.includes("network error")).toBe(true)
+    })
+
+    it("cache misses should return problem details distinguishable from network errors", async () => {
+        const requestUrl = "https://cookies.com/index,js"
+        const [adaptors] = createFileCache({})
+        const {event} = fetchEvent(requestUrl, policies.cacheOnly)
+        const res = await fetchCore(
+            event.request,
+            adaptors.networkFetch,
+            adaptors.fileCache,
+            event.clientId,
+            console.log,
+            false
+        )
+        expect(res.status).toBe(404)
+        expect(res.headers.has(ErrorHeader)).toBe(false)
+        expect(res.headers.get(errorCodeHeader)).toBe(CACHE_MISS)
+        expect(res.headers.get(errorStageHeader)).toBe("client-cache")
+        const problem = await res.json() as ProblemDetails
+        expect(problem.code).toBe(CACHE_MISS)
+        expect(problem.policy).toBe(CACHE_ONLY_POLICY)
+        expect(problem.url).toBe(requestUrl)
+    })
 })
\ No newline at end of file
@@ -1,46 +1,291 @@
 import {
     serviceWorkerPolicyHeader as policyHeader,
     serviceWorkerPolicies as policies,
+    serviceWorkerNetworkTimeoutHeader as networkTimeoutHeader,
+    DEFAULT_NETWORK_TIMEOUT_MILLISECONDS,
     ServiceWorkerPolicy,
     NETWORK_FIRST_POLICY,
     NETWORK_ONLY_POLICY,
     CACHE_ONLY_POLICY,
+    STALE_WHILE_REVALIDATE_POLICY,
+    NETWORK_FIRST_TIMEOUT_POLICY,
+    NETWORK_ONLY_QUEUE_POLICY,
+    StaleFileNotice,
     cacheHit,
-    NOT_FOUND_RESPONSE,
+    isCacheHit,
+    timeoutFallback,
     errorResponse,
+    ErrorContext,
+    ServiceWorkerErrorCode,
+    ServiceWorkerErrorStage,
+    NETWORK_ERROR,
+    NETWORK_TIMEOUT,
+    CACHE_MISS,
+    CACHE_FIRST_POLICY,
+    NetworkDenial,
+    isServiceWorkerPolicy,
     LogFn,
-    logRequest
+    logRequest,
+    serviceWorkerErrorCodeHeader as errorCodeHeader
 } from "./serviceWorkerMeta"
+import type {WorkerCache} from "./workerCache"
+import {rangeResponse} from "./rangeRequests"
+import {isNotModified, notModifiedResponse} from "./conditionalRequests"
+import type {RequestQueue} from "./requestQueue"
+import {responseBytes, RequestOutcome} from "./requestMetrics"
+import {deniedResponse, isNetworkPermissionError} from "./networkPermissions"
 
 const CACHE_FIRST = policies.cacheFirst["Sw-Policy"]
 
-const safeRequest = async (request: Promise<Response>) => {
+type DenialHandler = FetchCoreOptions["onNetworkDenied"]
+
+/** 
+ * Requests denied by network permissions recieve
+ * a 403, other failures an error of context.
+ */
+const failedRequest = (err: unknown, context: ErrorContext, onDenied: DenialHandler) => {
+    if (!isNetworkPermissionError(err)) {
+        return errorResponse(err, context)
+    }
+    onDenied?.(err.denial)
+    return deniedResponse(err.denial, context.policy)
+}
+
+const safeRequest = async (
+    request: Promise<Response>, 
+    context: ErrorContext,
+    onDenied: DenialHandler
+) => {
     try {
         return await request
     } catch (err) {
-        return errorResponse(err)
+        return failedRequest(err, context, onDenied)
     }
 }
 
 const cachefirstTag = "cache-first"
 const cacheonlyTag = "cache-only"
 const networkfirstTag = "network-first"
+const staleWhileRevalidateTag = "stale-while-revalidate"
+const networkfirstTimeoutTag = "network-first-timeout"
+const networkonlyQueueTag = "network-only-queue"
 
-export const fetchCore = async (
+export type FetchCoreOptions = {
+    waitUntil?: (promise: Promise<unknown>) => unknown
+    onStaleFile?: (notice: StaleFileNotice, clientId: string) => unknown
+    networkTimeout?: number
+    /** overrides the policy specified in request headers */
+    policy?: ServiceWorkerPolicy | null
+    workerCache?: WorkerCache | null
+    /** 
+     * worker cache entries are only shared between 
+     * requests of the same scope, defaults to client id
+     */
+    cacheScope?: string
+    requestQueue?: RequestQueue | null
+    /** called once a response is ready, with its cache & network outcome */
+    onRequestComplete?: (outcome: RequestOutcome) => unknown
+    /** 
+     * called if a request denied by network permissions
+     * could not be served from cache
+     */
+    onNetworkDenied?: (denial: NetworkDenial) => unknown
+}
+
+type FileLookup = {
+    getFile: (url: string, clientId: string) => Promise<Response | null>
+}
+
+/**
+ * Checks the worker cache before the client cache,
+ * and populates the worker cache with successful
+ * client cache & network responses that it accepts. 
+ * Responses of network only requests are never cached.
+ * Entries left by a previous worker are revalidated 
+ * against the client cache before they are served.
+ */
+const withWorkerCache = (
+    networkFetch: typeof fetch,
+    fileCache: FileLookup,
+    workerCache: WorkerCache,
+    scope: string,
+    policy: ServiceWorkerPolicy,
+    waitUntil: FetchCoreOptions["waitUntil"]
+) => {
+    const populate = (url: string, response: Response) => {
+        // checked before clone, so that large or
+        // unsized bodies are never buffered
+        if (!workerCache.accepts(response)) {
+            return
+        }
+        const task = workerCache.put(url, scope, response.clone()).catch(() => false)
+        waitUntil?.(task)
+    }
+    const networkOnly = (
+        policy === NETWORK_ONLY_POLICY 
+        || policy === NETWORK_ONLY_QUEUE_POLICY
+    )
+    const cachedNetworkFetch: typeof fetch = async (input, init) => {
+        const res = await networkFetch(input, init)
+        if (!networkOnly && input instanceof Request && input.method === "GET") {
+            populate(input.url, res)
+        }
+        return res
+    }
+    const layeredFileCache: FileLookup = {
+        getFile: async (url, clientId) => {
+            const client = {file: null as Response | null}
+            const validate = async (cached: Response) => {
+                client.file = await fileCache.getFile(url, clientId)
+                return client.file !== null && client.file.ok && !isFresherCopy(
+                    {
+                        etag: cached.headers.get("etag"),
+                        lastModified: cached.headers.get("last-modified")
+                    },
+                    client.file
+                )
+            }
+            const workerCached = await workerCache.get(url, scope, validate).catch(() => null)
+            if (workerCached) {
+                client.file?.body?.cancel().catch(() => {})
+                return workerCached
+            }
+            const res = client.file || await fileCache.getFile(url, clientId)
+            if (res) {
+                populate(url, res)
+            }
+            return res
+        }
+    }
+    return {networkFetch: cachedNetworkFetch, fileCache: layeredFileCache} as const
+}
+
+const requestTimeout = (request: Request, defaultTimeout: number) => {
+    const timeout = parseInt(request.headers.get(networkTimeoutHeader) || "", 10)
+    if (isNaN(timeout) || timeout < 1) {
+        return defaultTimeout
+    }
+    return timeout
+}
+
+/**
+ * Resolves to null if network request takes 
+ * longer than the specified timeout.
+ */
+const fetchWithTimeout = async (
     request: Request,
     networkFetch: typeof fetch,
-    fileCache: {
-        getFile: (url: string, clientId: string) => Promise<Response | null>
-    },
+    milliseconds: number
+) => {
+    const controller = new AbortController()
+    let timeoutId: ReturnType<typeof setTimeout> | null = null
+    const timeout = new Promise<null>((resolve) => {
+        timeoutId = setTimeout(() => {
+            controller.abort()
+            resolve(null)
+        }, milliseconds)
+    })
+    try {
+        return await Promise.race([
+            networkFetch(request, {signal: controller.signal}),
+            timeout
+        ])
+    } finally {
+        if (timeoutId !== null) {
+            clearTimeout(timeoutId)
+        }
+    }
+}
+
+const isFresherCopy = (
+    cached: {etag: string | null, lastModified: string | null},
+    network: Response
+) => {
+    const networkEtag = network.headers.get("etag")
+    if (cached.etag && networkEtag) {
+        return cached.etag !== networkEtag
+    }
+    const networkLastModified = network.headers.get("last-modified")
+    if (cached.lastModified && networkLastModified) {
+        return Date.parse(networkLastModified) > Date.parse(cached.lastModified)
+    }
+    // without validators there is no way to tell
+    // if copies are the same, so assume network is newer
+    return true
+}
+
+const revalidate = async (
+    request: Request,
+    networkFetch: typeof fetch,
+    cached: {etag: string | null, lastModified: string | null},
     targetClientId: string,
-    log: LogFn,
-    shouldLog: boolean
+    onStaleFile: NonNullable<FetchCoreOptions["onStaleFile"]>
 ) => {
+    try {
+        const res = await networkFetch(request)
+        if (!res.ok || !isFresherCopy(cached, res)) {
+            return
+        }
+        await onStaleFile({
+            url: request.url,
+            status: res.status,
+            etag: res.headers.get("etag"),
+            lastModified: res.headers.get("last-modified")
+        }, targetClientId)
+    } catch {
+        // background revalidation failures
+        // should never affect the served response
+    }
+}
+
+const requestPolicy = (request: Request, options: FetchCoreOptions) => {
     const policyString = (
         request.headers.get(policyHeader)
         || CACHE_FIRST
     )
-    const policy = parseInt(policyString, 10) as ServiceWorkerPolicy
+    return options.policy ?? parseInt(policyString, 10) as ServiceWorkerPolicy
+}
+
+/** 
+ * Reports lookups that found no usable copy, 
+ * through onMiss.
+ */
+const withMissTracking = (fileCache: FileLookup, onMiss: () => void): FileLookup => ({
+    getFile: async (url, clientId) => {
+        const file = await fileCache.getFile(url, clientId)
+        if (!file || !file.ok) {
+            onMiss()
+        }
+        return file
+    }
+})
+
+const isNetworkError = (response: Response) => {
+    const code = response.headers.get(errorCodeHeader)
+    return code === NETWORK_ERROR || code === NETWORK_TIMEOUT
+}
+
+const fetchWithPolicy = async (
+    request: Request,
+    networkFetch: typeof fetch,
+    fileCache: FileLookup,
+    targetClientId: string,
+    log: LogFn,
+    shouldLog: boolean,
+    options: FetchCoreOptions
+) => {
+    const policy = requestPolicy(request, options)
+    const appliedPolicy = isServiceWorkerPolicy(policy) ? policy : CACHE_FIRST_POLICY
+    const context = (
+        code: ServiceWorkerErrorCode, 
+        stage: ServiceWorkerErrorStage
+    ): ErrorContext => ({code, stage, policy: appliedPolicy, url: request.url})
+    const {onNetworkDenied} = options
+    const networkRequest = () => safeRequest(
+        networkFetch(request), 
+        context(NETWORK_ERROR, "network"),
+        onNetworkDenied
+    )
 
     switch (policy) {
         case NETWORK_ONLY_POLICY: {
@@ -49,9 +294,43 @@ export const fetchCore = async (
                 request, 
                 log, 
                 shouldLog,
-                null
+                null,
+                appliedPolicy,
+                targetClientId
+            )
+            return await networkRequest()
+        }
+        case NETWORK_ONLY_QUEUE_POLICY: {
+            logRequest(
+                networkonlyQueueTag,
+                request,
+                log,
+                shouldLog,
+                null,
+                appliedPolicy,
+                targetClientId
             )
-            return await safeRequest(networkFetch(request))
+            const {requestQueue, waitUntil} = options
+            const mutating = request.method !== "GET" && request.method !== "HEAD"
+            if (!requestQueue || !mutating) {
+                return await networkRequest()
+            }
+            // requests queued earlier by client must 
+            // reach the network before this one
+            if (await requestQueue.hasPending(targetClientId)) {
+                const queued = await requestQueue.enqueue(request, targetClientId)
+                waitUntil?.(requestQueue.replay(targetClientId))
+                return queued
+            }
+            const backup = request.clone()
+            try {
+                return await networkFetch(request)
+            } catch (err) {
+                if (isNetworkPermissionError(err)) {
+                    return failedRequest(err, context(NETWORK_ERROR, "network"), onNetworkDenied)
+                }
+                return await requestQueue.enqueue(backup, targetClientId)
+            }
         }
         case NETWORK_FIRST_POLICY: {
             try {
@@ -61,7 +340,9 @@ export const fetchCore = async (
                     request, 
                     log, 
                     shouldLog,
-                    null
+                    null,
+                    appliedPolicy,
+                    targetClientId
                 )
                 return res
             } catch (err) {
@@ -71,12 +352,65 @@ export const fetchCore = async (
                     request, 
                     log,
                     shouldLog,
-                    cached
+                    cached,
+                    appliedPolicy,
+                    targetClientId
+                )
+                if (cached && cached.ok) {
+                    return cacheHit(cached)
+                }
+                return failedRequest(err, context(NETWORK_ERROR, "network"), onNetworkDenied)
+            }
+        }
+        case NETWORK_FIRST_TIMEOUT_POLICY: {
+            const {networkTimeout = DEFAULT_NETWORK_TIMEOUT_MILLISECONDS} = options
+            const timeout = requestTimeout(request, networkTimeout)
+            try {
+                const res = await fetchWithTimeout(request, networkFetch, timeout)
+                if (res) {
+                    logRequest(
+                        networkfirstTimeoutTag,
+                        request,
+                        log,
+                        shouldLog,
+                        null,
+                        appliedPolicy,
+                        targetClientId
+                    )
+                    return res
+                }
+                const cached = await fileCache.getFile(request.url, targetClientId)
+                logRequest(
+                    networkfirstTimeoutTag,
+                    request,
+                    log,
+                    shouldLog,
+                    cached,
+                    appliedPolicy,
+                    targetClientId
+                )
+                if (cached && cached.ok) {
+                    return timeoutFallback(cached)
+                }
+                return errorResponse(
+                    `network request timed out after ${timeout}ms`,
+                    context(NETWORK_TIMEOUT, "network")
+                )
+            } catch (err) {
+                const cached = await fileCache.getFile(request.url, targetClientId)
+                logRequest(
+                    networkfirstTimeoutTag,
+                    request,
+                    log,
+                    shouldLog,
+                    cached,
+                    appliedPolicy,
+                    targetClientId
                 )
                 if (cached && cached.ok) {
                     return cacheHit(cached)
                 }
-                return errorResponse(err)
+                return failedRequest(err, context(NETWORK_ERROR, "network"), onNetworkDenied)
             }
         }
         case CACHE_ONLY_POLICY: {
@@ -86,12 +420,46 @@ export const fetchCore = async (
                 request, 
                 log,
                 shouldLog,
-                cached
+                cached,
+                appliedPolicy,
+                targetClientId
             )
             if (cached) {
                 return cacheHit(cached)
             }
-            return NOT_FOUND_RESPONSE
+            return errorResponse(
+                `${request.url} was not found in client cache`,
+                context(CACHE_MISS, "client-cache")
+            )
+        }
+        case STALE_WHILE_REVALIDATE_POLICY: {
+            const cached = await fileCache.getFile(request.url, targetClientId)
+            logRequest(
+                staleWhileRevalidateTag,
+                request,
+                log,
+                shouldLog,
+                cached,
+                appliedPolicy,
+                targetClientId
+            )
+            if (!cached || !cached.ok) {
+                return await networkRequest()
+            }
+            const {waitUntil, onStaleFile = () => {}} = options
+            const validators = {
+                etag: cached.headers.get("etag"),
+                lastModified: cached.headers.get("last-modified")
+            }
+            const revalidation = revalidate(
+                request,
+                networkFetch,
+                validators,
+                targetClientId,
+                onStaleFile
+            )
+            waitUntil?.(revalidation)
+            return cacheHit(cached)
         }
         default: {
             const cached = await fileCache.getFile(request.url, targetClientId)
@@ -100,12 +468,95 @@ export const fetchCore = async (
                 request,
                 log,
                 shouldLog,
-                cached
+                cached,
+                appliedPolicy,
+                targetClientId
             )
             if (cached && cached.ok) {
                 return cacheHit(cached)
             }
-            return await safeRequest(networkFetch(request))
+            return await networkRequest()
         }
     }
-}
\ No newline at end of file
+}
+
+const fetchFromLayers = async (
+    request: Request,
+    networkFetch: typeof fetch,
+    fileCache: FileLookup,
+    targetClientId: string,
+    log: LogFn,
+    shouldLog: boolean,
+    options: FetchCoreOptions
+) => {
+    const layers = options.workerCache
+        ? withWorkerCache(
+            networkFetch, 
+            fileCache, 
+            options.workerCache, 
+            options.cacheScope ?? targetClientId,
+            requestPolicy(request, options),
+            options.waitUntil
+        )
+        : {networkFetch, fileCache}
+    const res = await fetchWithPolicy(
+        request,
+        layers.networkFetch,
+        layers.fileCache,
+        targetClientId,
+        log,
+        shouldLog,
+        options
+    )
+    if (!isCacheHit(res)) {
+        return res
+    }
+    if (isNotModified(request, res)) {
+        return cacheHit(await notModifiedResponse(res))
+    }
+    return rangeResponse(request, res)
+}
+
+export const fetchCore = async (
+    request: Request,
+    networkFetch: typeof fetch,
+    fileCache: FileLookup,
+    targetClientId: string,
+    log: LogFn,
+    shouldLog: boolean,
+    options: FetchCoreOptions = {}
+) => {
+    const {onRequestComplete} = options
+    if (!onRequestComplete) {
+        return fetchFromLayers(
+            request, 
+            networkFetch, 
+            fileCache, 
+            targetClientId, 
+            log, 
+            shouldLog, 
+            options
+        )
+    }
+    const policy = requestPolicy(request, options)
+    const start = performance.now()
+    let cacheMiss = false
+    const res = await fetchFromLayers(
+        request,
+        networkFetch,
+        withMissTracking(fileCache, () => { cacheMiss = true }),
+        targetClientId,
+        log,
+        shouldLog,
+        options
+    )
+    onRequestComplete({
+        policy: isServiceWorkerPolicy(policy) ? policy : CACHE_FIRST_POLICY,
+        cacheHit: isCacheHit(res),
+        cacheMiss,
+        networkError: isNetworkError(res),
+        bytes: responseBytes(res),
+        latencyMilliseconds: performance.now() - start
+    })
+    return res
+}
@@ -3,8 +3,37 @@ import {createFetchHandler, FileCache, FetchHandlerEvent} from "./fetchHandler"
 import {
     serviceWorkerCacheHitHeader as cacheHitHeader,
     serviceWorkerErrorCatchHeader as ErrorHeader,
-    serviceWorkerPolicies as policies
+    serviceWorkerPolicies as policies,
+    serviceWorkerErrorCodeHeader as errorCodeHeader,
+    serviceWorkerErrorStageHeader as errorStageHeader,
+    TEMPLATE_PARAMETER_ERROR,
+    NOT_FOUND,
+    CACHE_ONLY_POLICY,
+    NETWORK_PERMISSION_DENIED,
+    LAUNCH_TOKEN_INVALID,
+    PROGRAM_SESSION_MISSING,
+    INTEGRITY_MISMATCH,
+    MIDDLEWARE_ERROR,
+    NETWORK_ONLY_POLICY,
+    NetworkDenial,
+    ProblemDetails,
+    RequestLogRecord
 } from "./serviceWorkerMeta"
+import {compilePolicyRoutes} from "./policyRoutes"
+import {compileLogFilter} from "./requestLog"
+import {createRequestMetrics} from "./requestMetrics"
+import {createHarRecorder} from "./harRecorder"
+import {
+    createProgramSessionRegistry, 
+    ProgramSessionStore, 
+    StoredProgramSession
+} from "./programSessions"
+import {programManifestDigest} from "./programManifest"
+import {
+    createLaunchTokenVerifier, 
+    signLaunchToken, 
+    LAUNCH_TOKEN_KEY_ALGORITHM
+} from "./launchTokens"
 
 const requestInfoToUrl = (request: RequestInfo | URL) => {
     if (typeof request === "string") {
@@ -276,7 +305,7 @@ describe("fetch handler behaviour with template endpoint (/runProgram)", () => {
         })
         const {networkCache, localCache, clientCache} = caches
         const handler = createFetchHandler({origin, ...adaptors})
-        const requestUrl = `${origin}/runProgram?csp=true&entry=index.js`
+        const requestUrl = `${origin}/runProgram?csp=${encodeURIComponent("default-src 'self';")}&entry=${encodeURIComponent("https://pizza.com/index.js")}`
         const res = await handler(fetchEvent(requestUrl).event)
         expect(res.status).toBe(200)
 
@@ -309,7 +338,8 @@ describe("fetch handler behaviour with template endpoint (/runProgram)", () => {
                 }
             }
         })
-        const csp = `default-src 'self'; script-src 'unsafe-inline'; child-src 'none'; worker-src 'self';`
+        const csp = `default-src 'self'; script-src 'self'; child-src 'none'; worker-src 'self';`
+        const expectedCsp = `${csp} object-src 'none'; base-uri 'none';`
         const entry = `https://pizza.com/index.js`
         const {networkCache, localCache, clientCache} = caches
         const handler = createFetchHandler({origin, ...adaptors})
@@ -319,7 +349,7 @@ describe("fetch handler behaviour with template endpoint (/runProgram)", () => {
 
         const htmlDoc = await res.text()
         expect(
-            htmlDoc.includes(`<meta http-equiv="Content-Security-Policy" content="${csp}"/>`)
+            htmlDoc.includes(`<meta http-equiv="Content-Security-Policy" content="${expectedCsp}"/>`)
         ).toBe(true)
         expect(
             htmlDoc.includes(`<script entry="${entry}" id="root-script"`)
@@ -354,7 +384,8 @@ describe("fetch handler behaviour with template endpoint (/runProgram)", () => {
                 }
             }
         })
-        const csp = `default-src 'self'; script-src 'unsafe-inline'; child-src 'none'; worker-src 'self';`
+        const csp = `default-src 'self'; script-src 'self'; child-src 'none'; worker-src 'self';`
+        const expectedCsp = `${csp} object-src 'none'; base-uri 'none';`
         const entry = `https://pizza.com/index.js`
         const {networkCache, localCache, clientCache} = caches
         const handler = createFetchHandler({
@@ -370,7 +401,7 @@ describe("fetch handler behaviour with template endpoint (/runProgram)", () => {
 
         const htmlDoc = await res.text()
         expect(
-            htmlDoc.includes(`<meta http-equiv="Content-Security-Policy" content="${csp}"/>`)
+            htmlDoc.includes(`<meta http-equiv="Content-Security-Policy" content="${expectedCsp}"/>`)
         ).toBe(true)
         expect(
             htmlDoc.includes(`<script entry="${entry}" id="root-script"`)
@@ -405,7 +436,8 @@ describe("fetch handler behaviour with template endpoint (/runProgram)", () => {
                 }
             }
         })
-        const csp = `default-src 'self'; script-src 'unsafe-inline'; child-src 'none'; worker-src 'self';`
+        const csp = `default-src 'self'; script-src 'self'; child-src 'none'; worker-src 'self';`
+        const expectedCsp = `${csp} object-src 'none'; base-uri 'none';`
         const entry = `https://pizza.com/index.js`
         const {networkCache, localCache, clientCache} = caches
         const handler = createFetchHandler({
@@ -419,7 +451,7 @@ describe("fetch handler behaviour with template endpoint (/runProgram)", () => {
 
         const htmlDoc = await res.text()
         expect(
-            htmlDoc.includes(`<meta http-equiv="Content-Security-Policy" content="${csp}"/>`)
+            htmlDoc.includes(`<meta http-equiv="Content-Security-Policy" content="${expectedCsp}"/>`)
         ).toBe(true)
         expect(
             htmlDoc.includes(`<script entry="${entry}" id="root-script"`)
@@ -435,6 +467,124 @@ describe("fetch handler behaviour with template endpoint (/runProgram)", () => {
             clientCache.accessLog.some((log) => log.url === requestUrl)
         ).toBe(false)
     })
+
+    it("should return 500 if csp param is weaker than sandbox baseline", async () => {
+        const origin = "https://donuts.com"
+        const [adaptors] = createFileCache({})
+        const handler = createFetchHandler({origin, ...adaptors})
+        const entry = encodeURIComponent("https://pizza.com/index.js")
+        const policies = [
+            "script-src *;",
+            "default-src 'self'; script-src 'self' 'unsafe-eval';",
+            "child-src 'none';",
+            "script-src 'self'; frame-ancestors 'none';",
+        ]
+        for (const policy of policies) {
+            const requestUrl = `${origin}/runProgram?csp=${encodeURIComponent(policy)}&entry=${entry}`
+            const res = await handler(fetchEvent(requestUrl).event)
+            expect(res.status).toBe(500)
+            expect(res.headers.get(errorCodeHeader)).toBe(TEMPLATE_PARAMETER_ERROR)
+        }
+    })
+
+    it("should build content-security-policy from structured cspConfig param", async () => {
+        const origin = "https://donuts.com"
+        const [adaptors] = createFileCache({})
+        const handler = createFetchHandler({origin, ...adaptors})
+        const entry = encodeURIComponent("https://pizza.com/index.js")
+        const cspConfig = {
+            directives: {
+                "default-src": ["'self'"],
+                "script-src": ["'self'", "'unsafe-eval'"],
+            },
+            allowUnsafeEval: true
+        }
+        const requestUrl = `${origin}/runProgram?cspConfig=${encodeURIComponent(JSON.stringify(cspConfig))}&entry=${entry}`
+        const res = await handler(fetchEvent(requestUrl).event)
+        expect(res.status).toBe(200)
+        const htmlDoc = await res.text()
+        const expectedCsp = `default-src 'self'; script-src 'self' 'unsafe-eval'; object-src 'none'; base-uri 'none';`
+        expect(
+            htmlDoc.includes(`<meta http-equiv="Content-Security-Policy" content="${expectedCsp}"/>`)
+        ).toBe(true)
+
+        const {allowUnsafeEval: _, ...disallowed} = cspConfig
+        const deniedUrl = `${origin}/runProgram?cspConfig=${encodeURIComponent(JSON.stringify(disallowed))}&entry=${entry}`
+        const denied = await handler(fetchEvent(deniedUrl).event)
+        expect(denied.status).toBe(500)
+    })
+
+    it("should return 500 if entry param is not an absolute http(s) url", async () => {
+        const origin = "https://donuts.com"
+        const [adaptors] = createFileCache({})
+        const handler = createFetchHandler({origin, ...adaptors})
+        const csp = encodeURIComponent("default-src 'self';")
+        const entries = [
+            "index.js",
+            "/index.js",
+            "javascript:alert(1)",
+            "data:text/javascript,alert(1)",
+            `"><script>alert(1)</script>`,
+        ]
+        for (const entry of entries) {
+            const requestUrl = `${origin}/runProgram?csp=${csp}&entry=${encodeURIComponent(entry)}`
+            const res = await handler(fetchEvent(requestUrl).event)
+            expect(res.status).toBe(500)
+            expect(res.headers.get(errorCodeHeader)).toBe(TEMPLATE_PARAMETER_ERROR)
+        }
+    })
+
+    it("malicious entry or csp params should not be able to inject markup into template", async () => {
+        const origin = "https://donuts.com"
+        const [adaptors] = createFileCache({})
+        const handler = createFetchHandler({origin, ...adaptors})
+        const csp = encodeURIComponent("default-src 'self';")
+        const maliciousEntry = `https://pizza.com/index.js?a="><script>alert(1)</script><a b="`
+        const entryRes = await handler(fetchEvent(
+            `${origin}/runProgram?csp=${csp}&entry=${encodeURIComponent(maliciousEntry)}`
+        ).event)
+        expect(entryRes.status).toBe(200)
+        const htmlDoc = await entryRes.text()
+        expect(htmlDoc.includes("<script>")).toBe(false)
+        expect(htmlDoc.split("<script").length).toBe(2)
+        expect(htmlDoc.includes(`"><`)).toBe(false)
+
+        const maliciousPolicies = [
+            `default-src 'self';"/><script>alert(1)</script>`,
+            `default-src 'self' "><base href="https://evil.com">`,
+        ]
+        for (const policy of maliciousPolicies) {
+            const entry = encodeURIComponent("https://pizza.com/index.js")
+            const res = await handler(fetchEvent(
+                `${origin}/runProgram?csp=${encodeURIComponent(policy)}&entry=${entry}`
+            ).event)
+            expect(res.status).toBe(500)
+        }
+
+        const maliciousConfig = {
+            directives: {"default-src": [`'self'"/><script>alert(1)</script>`]}
+        }
+        const configRes = await handler(fetchEvent(
+            `${origin}/runProgram?cspConfig=${encodeURIComponent(JSON.stringify(maliciousConfig))}&entry=${encodeURIComponent("https://pizza.com/index.js")}`
+        ).event)
+        expect(configRes.status).toBe(500)
+    })
+
+    it("entry param should be escaped when written into template", async () => {
+        const origin = "https://donuts.com"
+        const [adaptors] = createFileCache({})
+        const handler = createFetchHandler({origin, ...adaptors})
+        const csp = encodeURIComponent("default-src 'self';")
+        const entry = "https://pizza.com/index.js?a=1&b=2"
+        const res = await handler(fetchEvent(
+            `${origin}/runProgram?csp=${csp}&entry=${encodeURIComponent(entry)}`
+        ).event)
+        expect(res.status).toBe(200)
+        const htmlDoc = await res.text()
+        expect(
+            htmlDoc.includes(`<script entry="https://pizza.com/index.js?a=1&amp;b=2" id="root-script"`)
+        ).toBe(true)
+    })
 })
 
 describe("fetch handler behaviour with other resources on origin", () => {
@@ -1061,4 +1211,1158 @@ describe("fetch event behaviour with all other origins", () => {
         expect(localCache.accessLog.length).toBe(0)
         expect(clientCache.accessLog.some((log) => log.url === requestUrl)).toBe(true)
     })
-})
\ No newline at end of file
+})
+
+describe("fetch handler policy routing", () => {
+    it("policy from matching route should take precedence over policy header", async () => {
+        const origin = "https://donuts.com"
+        const requestUrl = "https://cookies.com/index.js"
+        const [adaptors, caches] = createFileCache({
+            networkFileHandlers: {
+                [requestUrl]: () => new Response("", {status: 200})
+            },
+        })
+        const {networkCache, clientCache} = caches
+        const handler = createFetchHandler({
+            origin, 
+            ...adaptors,
+            config: {
+                log: false,
+                policyRoutes: compilePolicyRoutes([
+                    {type: "glob", pattern: "https://cookies.com/*.js", policy: CACHE_ONLY_POLICY}
+                ])
+            }
+        })
+        const res = await handler(fetchEvent(requestUrl, policies.networkOnly).event)
+        expect(res.status).toBe(404)
+        expect(networkCache.accessLog.length).toBe(0)
+        expect(clientCache.accessLog.some((log) => log.url === requestUrl)).toBe(true)
+    })
+
+    it("policy header should be used if no route matches", async () => {
+        const origin = "https://donuts.com"
+        const requestUrl = "https://cookies.com/index.js"
+        const [adaptors, caches] = createFileCache({
+            networkFileHandlers: {
+                [requestUrl]: () => new Response("", {status: 200})
+            },
+        })
+        const {networkCache, clientCache} = caches
+        const handler = createFetchHandler({
+            origin, 
+            ...adaptors,
+            config: {
+                log: false,
+                policyRoutes: compilePolicyRoutes([
+                    {type: "glob", pattern: "https://pizza.com/**", policy: CACHE_ONLY_POLICY}
+                ])
+            }
+        })
+        const res = await handler(fetchEvent(requestUrl, policies.networkOnly).event)
+        expect(res.status).toBe(200)
+        expect(networkCache.accessLog.some((log) => log.url === requestUrl)).toBe(true)
+        expect(clientCache.accessLog.length).toBe(0)
+    })
+})
+
+describe("fetch handler request coalescing", () => {
+    it("concurrent identical requests should share one client cache lookup", async () => {
+        const origin = "https://donuts.com"
+        const requestUrl = "https://cookies.com/index.js"
+        const [adaptors, caches] = createFileCache({
+            clientFileHandlers: {
+                [requestUrl]: () => new Response("cached", {status: 200})
+            },
+        })
+        const {networkCache, clientCache} = caches
+        const handler = createFetchHandler({origin, ...adaptors})
+        const responses = await Promise.all([
+            handler(fetchEvent(requestUrl, policies.cacheFirst).event),
+            handler(fetchEvent(requestUrl, policies.cacheFirst).event),
+            handler(fetchEvent(requestUrl, policies.cacheFirst).event),
+        ])
+        for (const res of responses) {
+            expect(res.status).toBe(200)
+            expect(res.headers.get(cacheHitHeader.key)).toBe(cacheHitHeader.value)
+            expect(await res.text()).toBe("cached")
+        }
+        expect(clientCache.accessLog.length).toBe(1)
+        expect(networkCache.accessLog.length).toBe(0)
+    })
+
+    it("concurrent requests with different policies should not be shared", async () => {
+        const origin = "https://donuts.com"
+        const requestUrl = "https://cookies.com/index.js"
+        const [adaptors, caches] = createFileCache({
+            clientFileHandlers: {
+                [requestUrl]: () => new Response("cached", {status: 200})
+            },
+            networkFileHandlers: {
+                [requestUrl]: () => new Response("network", {status: 200})
+            },
+        })
+        const {networkCache, clientCache} = caches
+        const handler = createFetchHandler({origin, ...adaptors})
+        const [cached, network] = await Promise.all([
+            handler(fetchEvent(requestUrl, policies.cacheOnly).event),
+            handler(fetchEvent(requestUrl, policies.networkOnly).event),
+        ])
+        expect(await cached.text()).toBe("cached")
+        expect(await network.text()).toBe("network")
+        expect(clientCache.accessLog.length).toBe(1)
+        expect(networkCache.accessLog.length).toBe(1)
+    })
+
+    it("concurrent identical requests should not be shared if coalescing is disabled", async () => {
+        const origin = "https://donuts.com"
+        const requestUrl = "https://cookies.com/index.js"
+        const [adaptors, caches] = createFileCache({
+            clientFileHandlers: {
+                [requestUrl]: () => new Response("cached", {status: 200})
+            },
+        })
+        const {clientCache} = caches
+        const handler = createFetchHandler({
+            origin, 
+            ...adaptors, 
+            coalesceRequests: false
+        })
+        await Promise.all([
+            handler(fetchEvent(requestUrl, policies.cacheFirst).event),
+            handler(fetchEvent(requestUrl, policies.cacheFirst).event),
+        ])
+        expect(clientCache.accessLog.length).toBe(2)
+    })
+})
+
+describe("fetch handler error responses", () => {
+    it("template parameter errors should return problem details with template stage", async () => {
+        const origin = "https://donuts.com"
+        const [adaptors] = createFileCache({})
+        const handler = createFetchHandler({origin, ...adaptors})
+        const requestUrl = `${origin}/runProgram?csp=true`
+        const res = await handler(fetchEvent(requestUrl).event)
+        expect(res.status).toBe(500)
+        expect(res.headers.get(errorCodeHeader)).toBe(TEMPLATE_PARAMETER_ERROR)
+        expect(res.headers.get(errorStageHeader)).toBe("template")
+        const problem = await res.json() as ProblemDetails
+        expect(problem.code).toBe(TEMPLATE_PARAMETER_ERROR)
+        expect(problem.policy).toBe(null)
+        expect(problem.url).toBe(requestUrl)
+    })
+
+    it("unknown same origin resources should return not found problem details every time they are requested", async () => {
+        const origin = "https://donuts.com"
+        const [adaptors] = createFileCache({})
+        const handler = createFetchHandler({origin, ...adaptors})
+        const requestUrl = `${origin}/random.js`
+        for (let i = 0; i < 2; i++) {
+            const res = await handler(fetchEvent(requestUrl).event)
+            expect(res.status).toBe(404)
+            expect(res.headers.get(errorCodeHeader)).toBe(NOT_FOUND)
+            const problem = await res.json() as ProblemDetails
+            expect(problem.stage).toBe("sandbox-origin")
+            expect(problem.url).toBe(requestUrl)
+        }
+    })
+})
+
+describe("fetch handler middleware", () => {
+    it("middleware should be able to modify request before it is handled", async () => {
+        const origin = "https://donuts.com"
+        const requestUrl = "https://cookies.com/index.js"
+        const rewrittenUrl = "https://cookies.com/v2/index.js"
+        let recievedHeader = ""
+        const [adaptors, caches] = createFileCache({})
+        const {networkCache} = caches
+        const handler = createFetchHandler({
+            origin, 
+            ...adaptors,
+            networkFetch: async (input) => {
+                const request = input as Request
+                recievedHeader = request.headers.get("authorization") || ""
+                return adaptors.networkFetch(input)
+            },
+            middleware: [
+                {
+                    name: "rewrite",
+                    onRequest: (request) => new Request(rewrittenUrl, request)
+                },
+                {
+                    name: "auth",
+                    onRequest: (request) => {
+                        const headers = new Headers(request.headers)
+                        headers.set("authorization", "token")
+                        return new Request(request, {headers})
+                    }
+                },
+            ]
+        })
+        await handler(fetchEvent(requestUrl, policies.networkOnly).event)
+        expect(networkCache.accessLog.some((log) => log.url === rewrittenUrl)).toBe(true)
+        expect(networkCache.accessLog.some((log) => log.url === requestUrl)).toBe(false)
+        expect(recievedHeader).toBe("token")
+    })
+
+    it("middleware should be able to short-circuit request with response", async () => {
+        const origin = "https://donuts.com"
+        const requestUrl = "https://blocked.com/index.js"
+        const [adaptors, caches] = createFileCache({})
+        const {networkCache, clientCache} = caches
+        const calls = [] as string[]
+        const handler = createFetchHandler({
+            origin, 
+            ...adaptors,
+            middleware: [
+                {
+                    name: "block",
+                    onRequest: (request) => {
+                        if (request.url.startsWith("https://blocked.com")) {
+                            return new Response("blocked", {status: 403})
+                        }
+                    },
+                    onResponse: () => { calls.push("block") }
+                },
+                {
+                    name: "never-called",
+                    onRequest: () => { calls.push("never-called") },
+                    onResponse: () => { calls.push("never-called") }
+                },
+            ]
+        })
+        const res = await handler(fetchEvent(requestUrl).event)
+        expect(res.status).toBe(403)
+        expect(calls).toStrictEqual(["block"])
+        expect(networkCache.accessLog.length).toBe(0)
+        expect(clientCache.accessLog.length).toBe(0)
+    })
+
+    it("middleware should post-process responses in reverse order", async () => {
+        const origin = "https://donuts.com"
+        const requestUrl = "https://cookies.com/index.js"
+        const [adaptors] = createFileCache({
+            networkFileHandlers: {
+                [requestUrl]: () => new Response("", {status: 200})
+            }
+        })
+        const order = [] as string[]
+        const handler = createFetchHandler({
+            origin, 
+            ...adaptors,
+            middleware: [
+                {
+                    name: "first",
+                    onResponse: (response) => {
+                        order.push("first")
+                        const headers = new Headers(response.headers)
+                        headers.set("x-middleware", "first")
+                        return new Response(response.body, {status: response.status, headers})
+                    }
+                },
+                {
+                    name: "second",
+                    onResponse: () => { order.push("second") }
+                },
+            ]
+        })
+        const res = await handler(fetchEvent(requestUrl, policies.networkOnly).event)
+        expect(res.status).toBe(200)
+        expect(res.headers.get("x-middleware")).toBe("first")
+        expect(order).toStrictEqual(["second", "first"])
+    })
+
+    it("middleware that throws should be answered with an error response naming it", async () => {
+        const origin = "https://donuts.com"
+        const requestUrl = "https://cookies.com/index.js"
+        const [adaptors, caches] = createFileCache({
+            networkFileHandlers: {
+                [requestUrl]: () => new Response("", {status: 200})
+            }
+        })
+        const throwing = createFetchHandler({
+            origin, 
+            ...adaptors,
+            middleware: [{
+                name: "broken-rewrite",
+                onRequest: () => { throw new Error("rewrite failed") }
+            }]
+        })
+        const res = await throwing(fetchEvent(requestUrl, policies.networkOnly).event)
+        expect(res.status).toBe(500)
+        expect(res.headers.get(errorCodeHeader)).toBe(MIDDLEWARE_ERROR)
+        expect(res.headers.get(errorStageHeader)).toBe("middleware")
+        const problem = await res.json() as ProblemDetails
+        expect(problem.detail).toContain("broken-rewrite")
+        expect(problem.detail).toContain("rewrite failed")
+        expect(caches.networkCache.accessLog.length).toBe(0)
+
+        const throwingResponse = createFetchHandler({
+            origin, 
+            ...adaptors,
+            middleware: [{
+                name: "broken-headers",
+                onResponse: async () => { throw new Error("headers failed") }
+            }]
+        })
+        const failed = await throwingResponse(fetchEvent(requestUrl, policies.networkOnly).event)
+        expect(failed.headers.get(errorCodeHeader)).toBe(MIDDLEWARE_ERROR)
+        expect(((await failed.json()) as ProblemDetails).detail).toContain("broken-headers")
+    })
+})
+
+describe("fetch handler network permissions", () => {
+    const launchUrl = (origin: string, network: object) => {
+        const csp = encodeURIComponent("default-src 'self';")
+        const entry = encodeURIComponent("https://cookies.com/index.js")
+        const permissions = encodeURIComponent(JSON.stringify(network))
+        return `${origin}/runProgram?csp=${csp}&entry=${entry}&network=${permissions}`
+    }
+
+    it("requests from launched program to origins not in network permissions should return 403 and be reported", async () => {
+        const origin = "https://donuts.com"
+        const allowedUrl = "https://cookies.com/index.js"
+        const deniedUrl = "https://evil.com/steal.js"
+        const [adaptors, caches] = createFileCache({
+            networkFileHandlers: {
+                [allowedUrl]: () => new Response("", {status: 200}),
+                [deniedUrl]: () => new Response("", {status: 200}),
+            }
+        })
+        const {networkCache} = caches
+        const denials = [] as Array<{denial: NetworkDenial, clientId: string}>
+        const handler = createFetchHandler({
+            origin, 
+            ...adaptors,
+            onNetworkDenied: (denial, clientId) => denials.push({denial, clientId})
+        })
+        const launch = fetchEvent(launchUrl(origin, {
+            allowNetwork: true,
+            allowedOrigins: ["https://cookies.com"]
+        })).event
+        expect((await handler({...launch, resultingClientId: "program"})).status).toBe(200)
+
+        const allowed = fetchEvent(allowedUrl, policies.networkOnly).event
+        expect((await handler({...allowed, clientId: "program"})).status).toBe(200)
+
+        const denied = fetchEvent(deniedUrl, policies.networkOnly).event
+        const res = await handler({...denied, clientId: "program"})
+        expect(res.status).toBe(403)
+        expect(res.headers.get(errorCodeHeader)).toBe(NETWORK_PERMISSION_DENIED)
+        expect(networkCache.accessLog.some((log) => log.url === deniedUrl)).toBe(false)
+        expect(denials.length).toBe(1)
+        expect(denials[0].clientId).toBe("program")
+        expect(denials[0].denial.url).toBe(deniedUrl)
+
+        const otherClient = fetchEvent(deniedUrl, policies.networkOnly).event
+        expect((await handler({...otherClient, clientId: "other"})).status).toBe(200)
+    })
+
+    it("network first requests denied by permissions should fall back to client cache", async () => {
+        const origin = "https://donuts.com"
+        const cachedUrl = "https://evil.com/cached.js"
+        const uncachedUrl = "https://evil.com/uncached.js"
+        const [adaptors, caches] = createFileCache({
+            clientFileHandlers: {
+                [cachedUrl]: () => new Response("cached", {status: 200})
+            },
+            networkFileHandlers: {
+                [cachedUrl]: () => new Response("network", {status: 200}),
+                [uncachedUrl]: () => new Response("network", {status: 200}),
+            }
+        })
+        const {networkCache} = caches
+        const denials = [] as NetworkDenial[]
+        const handler = createFetchHandler({
+            origin, 
+            ...adaptors,
+            onNetworkDenied: (denial) => denials.push(denial)
+        })
+        const launch = fetchEvent(launchUrl(origin, {
+            allowNetwork: true,
+            allowedOrigins: ["https://cookies.com"]
+        })).event
+        await handler({...launch, resultingClientId: "program"})
+
+        for (const policy of [policies.networkFirst, policies.networkFirstTimeout]) {
+            const cached = fetchEvent(cachedUrl, policy).event
+            const res = await handler({...cached, clientId: "program"})
+            expect(res.status).toBe(200)
+            expect(res.headers.get(cacheHitHeader.key)).toBe(cacheHitHeader.value)
+            expect(await res.text()).toBe("cached")
+
+            const uncached = fetchEvent(uncachedUrl, policy).event
+            const denied = await handler({...uncached, clientId: "program"})
+            expect(denied.status).toBe(403)
+            expect(denied.headers.get(errorCodeHeader)).toBe(NETWORK_PERMISSION_DENIED)
+        }
+        expect(networkCache.accessLog.length).toBe(0)
+        // only requests that were answered with a denial are reported
+        expect(denials.map(({url}) => url)).toStrictEqual([uncachedUrl, uncachedUrl])
+    })
+
+    it("stale while revalidate cache hits should not report denied revalidations", async () => {
+        const origin = "https://donuts.com"
+        const cachedUrl = "https://evil.com/cached.js"
+        const uncachedUrl = "https://evil.com/uncached.js"
+        const [adaptors, caches] = createFileCache({
+            clientFileHandlers: {
+                [cachedUrl]: () => new Response("cached", {status: 200})
+            },
+            networkFileHandlers: {
+                [cachedUrl]: () => new Response("network", {status: 200}),
+                [uncachedUrl]: () => new Response("network", {status: 200}),
+            }
+        })
+        const {networkCache} = caches
+        const denials = [] as NetworkDenial[]
+        const handler = createFetchHandler({
+            origin, 
+            ...adaptors,
+            onNetworkDenied: (denial) => denials.push(denial)
+        })
+        const launch = fetchEvent(launchUrl(origin, {
+            allowNetwork: false,
+            allowedOrigins: []
+        })).event
+        await handler({...launch, resultingClientId: "program"})
+
+        const revalidations = [] as Promise<unknown>[]
+        const cached = fetchEvent(cachedUrl, policies.staleWhileRevalidate).event
+        const res = await handler({
+            ...cached, 
+            clientId: "program",
+            waitUntil: (promise) => revalidations.push(promise)
+        })
+        expect(res.status).toBe(200)
+        expect(await res.text()).toBe("cached")
+        await Promise.all(revalidations)
+        expect(denials.length).toBe(0)
+
+        const uncached = fetchEvent(uncachedUrl, policies.staleWhileRevalidate).event
+        const denied = await handler({...uncached, clientId: "program"})
+        expect(denied.status).toBe(403)
+        expect(denials.length).toBe(1)
+        expect(networkCache.accessLog.length).toBe(0)
+    })
+
+    it("programs without network access should still recieve client cached files", async () => {
+        const origin = "https://donuts.com"
+        const requestUrl = "https://cookies.com/index.js"
+        const [adaptors, caches] = createFileCache({
+            clientFileHandlers: {
+                [requestUrl]: () => new Response("", {status: 200})
+            }
+        })
+        const {networkCache} = caches
+        const handler = createFetchHandler({origin, ...adaptors})
+        const launch = fetchEvent(launchUrl(origin, {
+            allowNetwork: false,
+            allowedOrigins: []
+        })).event
+        await handler({...launch, resultingClientId: "program"})
+        const cached = fetchEvent(requestUrl, policies.cacheFirst).event
+        const res = await handler({...cached, clientId: "program"})
+        expect(res.status).toBe(200)
+        expect(res.headers.get(cacheHitHeader.key)).toBe(cacheHitHeader.value)
+        expect(networkCache.accessLog.length).toBe(0)
+    })
+
+    it("template endpoint should return error if network permissions are malformed", async () => {
+        const origin = "https://donuts.com"
+        const [adaptors] = createFileCache({})
+        const handler = createFetchHandler({origin, ...adaptors})
+        const res = await handler(fetchEvent(launchUrl(origin, {allowedOrigins: "*"})).event)
+        expect(res.status).toBe(500)
+        expect(res.headers.get(errorCodeHeader)).toBe(TEMPLATE_PARAMETER_ERROR)
+    })
+})
+
+describe("fetch handler launch tokens", () => {
+    const origin = "https://donuts.com"
+    const entry = "https://cookies.com/index.js"
+    const csp = "default-src 'self';"
+
+    const setup = async () => {
+        const {publicKey, privateKey} = await crypto.subtle.generateKey(
+            LAUNCH_TOKEN_KEY_ALGORITHM, true, ["sign", "verify"]
+        )
+        const launchTokens = createLaunchTokenVerifier()
+        await launchTokens.addKey(await crypto.subtle.exportKey("jwk", publicKey))
+        const [adaptors] = createFileCache({})
+        const handler = createFetchHandler({origin, ...adaptors, launchTokens})
+        return {handler, privateKey}
+    }
+
+    const launchUrl = (token: string | null, entryUrl = entry) => {
+        const url = `${origin}/runProgram?csp=${encodeURIComponent(csp)}&entry=${encodeURIComponent(entryUrl)}`
+        return token === null ? url : `${url}&token=${encodeURIComponent(token)}`
+    }
+
+    it("programs launched with valid token should return template", async () => {
+        const {handler, privateKey} = await setup()
+        const token = await signLaunchToken({
+            entry, csp, network: null, integrity: null, manifest: null, manifestDigest: null, expires: Date.now() + 60_000
+        }, privateKey)
+        const res = await handler(fetchEvent(launchUrl(token)).event)
+        expect(res.status).toBe(200)
+        expect((await res.text()).includes(`<script entry="${entry}"`)).toBe(true)
+    })
+
+    it("programs launched with missing, expired or tampered tokens should return 403", async () => {
+        const {handler, privateKey} = await setup()
+        const expired = await signLaunchToken({
+            entry, csp, network: null, integrity: null, manifest: null, manifestDigest: null, expires: Date.now() - 1
+        }, privateKey)
+        const valid = await signLaunchToken({
+            entry, csp, network: null, integrity: null, manifest: null, manifestDigest: null, expires: Date.now() + 60_000
+        }, privateKey)
+        const [payload, signature] = valid.split(".")
+        const requests = [
+            launchUrl(null),
+            launchUrl(expired),
+            launchUrl(`${payload}.${signature.slice(0, -4)}AAAA`),
+            launchUrl(valid, "https://evil.com/index.js"),
+        ]
+        for (const url of requests) {
+            const res = await handler(fetchEvent(url).event)
+            expect(res.status).toBe(403)
+            expect(res.headers.get(errorCodeHeader)).toBe(LAUNCH_TOKEN_INVALID)
+            expect(res.headers.get(errorStageHeader)).toBe("template")
+            const problem = await res.json() as ProblemDetails
+            expect(problem.code).toBe(LAUNCH_TOKEN_INVALID)
+        }
+    })
+
+    it("launch token should cover network permissions", async () => {
+        const {handler, privateKey} = await setup()
+        const token = await signLaunchToken({
+            entry, csp, network: null, integrity: null, manifest: null, manifestDigest: null, expires: Date.now() + 60_000
+        }, privateKey)
+        const network = encodeURIComponent(JSON.stringify({allowNetwork: true, allowedOrigins: ["*"]}))
+        const res = await handler(fetchEvent(`${launchUrl(token)}&network=${network}`).event)
+        expect(res.status).toBe(403)
+    })
+
+    it("launch token should be checked against the entry that is imported", async () => {
+        const {handler, privateKey} = await setup()
+        const encodedEntry = encodeURIComponent(entry)
+        const sign = (entryClaim: string) => signLaunchToken({
+            entry: entryClaim, csp, network: null, integrity: null, manifest: null, manifestDigest: null, expires: Date.now() + 60_000
+        }, privateKey)
+        const rawQueryToken = await sign(encodedEntry)
+        const rejected = await handler(fetchEvent(launchUrl(rawQueryToken, encodedEntry)).event)
+        expect(rejected.status).toBe(403)
+        const importedToken = await sign(entry)
+        const accepted = await handler(fetchEvent(launchUrl(importedToken, encodedEntry)).event)
+        expect(accepted.status).toBe(200)
+        expect((await accepted.text()).includes(`<script entry="${entry}"`)).toBe(true)
+    })
+})
+
+describe("fetch handler subresource integrity", () => {
+    const origin = "https://donuts.com"
+    const entry = "https://cookies.com/index.js"
+
+    const sha384 = async (text: string) => {
+        const digest = new Uint8Array(
+            await crypto.subtle.digest("SHA-384", new TextEncoder().encode(text))
+        )
+        return `sha384-${btoa(String.fromCharCode(...digest))}`
+    }
+
+    const launchUrl = (integrity: object) => {
+        const csp = encodeURIComponent("default-src 'self';")
+        const manifest = encodeURIComponent(JSON.stringify(integrity))
+        return `${origin}/runProgram?csp=${csp}&entry=${encodeURIComponent(entry)}&integrity=${manifest}`
+    }
+
+    const sizedResponse = (text: string) => new Response(text, {
+        status: 200,
+        headers: {"content-length": new TextEncoder().encode(text).length.toString()}
+    })
+
+    it("files requested by program should be refused if digest does not match integrity manifest", async () => {
+        const dependency = "https://cookies.com/dep.js"
+        const unlisted = "https://cookies.com/other.js"
+        const [adaptors] = createFileCache({
+            networkFileHandlers: {
+                [entry]: () => sizedResponse("export const main = () => {}"),
+                [dependency]: () => sizedResponse("tampered"),
+                [unlisted]: () => sizedResponse("anything"),
+            }
+        })
+        const handler = createFetchHandler({origin, ...adaptors})
+        const launch = fetchEvent(launchUrl({
+            [entry]: await sha384("export const main = () => {}"),
+            [dependency]: await sha384("original"),
+        })).event
+        expect((await handler({...launch, resultingClientId: "program"})).status).toBe(200)
+
+        const entryRequest = fetchEvent(entry, policies.networkOnly).event
+        const entryRes = await handler({...entryRequest, clientId: "program"})
+        expect(entryRes.status).toBe(200)
+        expect(await entryRes.text()).toBe("export const main = () => {}")
+
+        const dependencyRequest = fetchEvent(dependency, policies.networkOnly).event
+        const refused = await handler({...dependencyRequest, clientId: "program"})
+        expect(refused.status).toBe(502)
+        expect(refused.headers.get(errorCodeHeader)).toBe(INTEGRITY_MISMATCH)
+        expect(refused.headers.get(errorStageHeader)).toBe("integrity")
+
+        const unlistedRequest = fetchEvent(unlisted, policies.networkOnly).event
+        expect((await handler({...unlistedRequest, clientId: "program"})).status).toBe(200)
+        // other clients are not affected by program's manifest
+        expect((await handler({...dependencyRequest, clientId: "other"})).status).toBe(200)
+    })
+
+    it("files of unknown size should be streamed and errored if digest does not match", async () => {
+        const dependency = "https://cookies.com/dep.js"
+        const [adaptors] = createFileCache({
+            networkFileHandlers: {
+                [entry]: () => new Response("export const main = () => {}", {status: 200}),
+                [dependency]: () => new Response("tampered", {status: 200}),
+            }
+        })
+        const sessions = createProgramSessionRegistry()
+        const handler = createFetchHandler({origin, ...adaptors, sessions})
+        const launch = fetchEvent(launchUrl({
+            [entry]: await sha384("export const main = () => {}"),
+            [dependency]: await sha384("original"),
+        })).event
+        await handler({...launch, resultingClientId: "program"})
+
+        const entryRes = await handler({...fetchEvent(entry, policies.networkOnly).event, clientId: "program"})
+        expect(await entryRes.text()).toBe("export const main = () => {}")
+        const dependencyRes = await handler({...fetchEvent(dependency, policies.networkOnly).event, clientId: "program"})
+        expect(dependencyRes.status).toBe(200)
+        await expect(dependencyRes.text()).rejects.toThrow()
+        expect(sessions.peek("program")?.stats.integrityFailures).toBe(1)
+    })
+
+    it("ranged requests should only be served once whole file is verified", async () => {
+        const video = "https://cookies.com/video.mp4"
+        const [adaptors] = createFileCache({
+            networkFileHandlers: {
+                [video]: () => new Response("tampered-video", {status: 200}),
+            }
+        })
+        const handler = createFetchHandler({origin, ...adaptors})
+        const launch = fetchEvent(launchUrl({[video]: await sha384("original-video")})).event
+        await handler({...launch, resultingClientId: "program"})
+        const ranged = fetchEvent(video, {...policies.networkOnly, range: "bytes=0-3"}).event
+        const refused = await handler({...ranged, clientId: "program"})
+        expect(refused.status).toBe(502)
+        expect(refused.headers.get(errorCodeHeader)).toBe(INTEGRITY_MISMATCH)
+
+        const [verifiedAdaptors] = createFileCache({
+            networkFileHandlers: {
+                [video]: () => new Response("original-video", {status: 200}),
+            }
+        })
+        const verifiedHandler = createFetchHandler({origin, ...verifiedAdaptors})
+        await verifiedHandler({...launch, resultingClientId: "program"})
+        const partial = await verifiedHandler({...ranged, clientId: "program"})
+        expect(partial.status).toBe(206)
+        expect(await partial.text()).toBe("orig")
+    })
+
+    it("malformed integrity manifest should return template error", async () => {
+        const [adaptors] = createFileCache({})
+        const handler = createFetchHandler({origin, ...adaptors})
+        const res = await handler(fetchEvent(launchUrl({[entry]: "md5-abc"})).event)
+        expect(res.status).toBe(500)
+        expect(res.headers.get(errorCodeHeader)).toBe(TEMPLATE_PARAMETER_ERROR)
+    })
+})
+
+describe("fetch handler huzma manifest launches", () => {
+    const origin = "https://donuts.com"
+    const manifestUrl = "https://cookies.com/pkg/default.huzma.json"
+    const manifest = {
+        schema: 2,
+        name: "cookie-game",
+        version: "0.1.0",
+        entry: "index.js",
+        files: [{name: "index.js", bytes: 10, invalidation: "default"}],
+        permissions: ["allowUnsafeEval"],
+        metadata: {}
+    }
+
+    it("entry, csp and manifest metadata should be derived from manifest", async () => {
+        const [adaptors] = createFileCache({
+            networkFileHandlers: {
+                [manifestUrl]: () => new Response(JSON.stringify(manifest), {status: 200})
+            }
+        })
+        const handler = createFetchHandler({origin, ...adaptors})
+        const requestUrl = `${origin}/runProgram?manifest=${encodeURIComponent(manifestUrl)}`
+        const res = await handler(fetchEvent(requestUrl).event)
+        expect(res.status).toBe(200)
+        const htmlDoc = await res.text()
+        expect(
+            htmlDoc.includes(`<script entry="https://cookies.com/pkg/index.js" manifest="`)
+        ).toBe(true)
+        expect(htmlDoc.includes(`script-src 'self' https://cookies.com 'unsafe-eval';`)).toBe(true)
+        expect(htmlDoc.includes("&quot;name&quot;:&quot;cookie-game&quot;")).toBe(true)
+    })
+
+    it("invalid or unreachable manifests should return template error", async () => {
+        const [adaptors] = createFileCache({
+            networkFileHandlers: {
+                [manifestUrl]: () => new Response(JSON.stringify({name: 1}), {status: 200})
+            }
+        })
+        const handler = createFetchHandler({origin, ...adaptors})
+        const invalid = await handler(fetchEvent(
+            `${origin}/runProgram?manifest=${encodeURIComponent(manifestUrl)}`
+        ).event)
+        expect(invalid.status).toBe(500)
+        expect(invalid.headers.get(errorCodeHeader)).toBe(TEMPLATE_PARAMETER_ERROR)
+        const missing = await handler(fetchEvent(
+            `${origin}/runProgram?manifest=${encodeURIComponent("https://cookies.com/missing.huzma.json")}`
+        ).event)
+        expect(missing.status).toBe(500)
+    })
+
+    it("launch tokens should be bound to digest of manifest", async () => {
+        const {publicKey, privateKey} = await crypto.subtle.generateKey(
+            LAUNCH_TOKEN_KEY_ALGORITHM, true, ["sign", "verify"]
+        )
+        const launchTokens = createLaunchTokenVerifier()
+        await launchTokens.addKey(await crypto.subtle.exportKey("jwk", publicKey))
+        const text = JSON.stringify(manifest)
+        const signedManifest = {
+            entry: "", 
+            csp: "", 
+            network: null, 
+            integrity: null, 
+            manifest: manifestUrl, 
+            manifestDigest: await programManifestDigest(new TextEncoder().encode(text).buffer),
+            expires: Date.now() + 60_000
+        }
+        const token = await signLaunchToken(signedManifest, privateKey)
+        const requestUrl = `${origin}/runProgram?manifest=${encodeURIComponent(manifestUrl)}&token=${encodeURIComponent(token)}`
+
+        const [adaptors] = createFileCache({
+            networkFileHandlers: {[manifestUrl]: () => new Response(text, {status: 200})}
+        })
+        const handler = createFetchHandler({origin, ...adaptors, launchTokens})
+        expect((await handler(fetchEvent(requestUrl).event)).status).toBe(200)
+
+        const [changedAdaptors] = createFileCache({
+            networkFileHandlers: {
+                [manifestUrl]: () => new Response(JSON.stringify({...manifest, permissions: ["allowAll"]}), {status: 200})
+            }
+        })
+        const changed = createFetchHandler({origin, ...changedAdaptors, launchTokens})
+        const res = await changed(fetchEvent(requestUrl).event)
+        expect(res.status).toBe(403)
+        expect(res.headers.get(errorCodeHeader)).toBe(LAUNCH_TOKEN_INVALID)
+    })
+
+    it("manifest launches should not be combined with entry or csp params", async () => {
+        const [adaptors] = createFileCache({
+            networkFileHandlers: {
+                [manifestUrl]: () => new Response(JSON.stringify(manifest), {status: 200})
+            }
+        })
+        const handler = createFetchHandler({origin, ...adaptors})
+        const entry = encodeURIComponent("https://evil.com/index.js")
+        const res = await handler(fetchEvent(
+            `${origin}/runProgram?manifest=${encodeURIComponent(manifestUrl)}&entry=${entry}`
+        ).event)
+        expect(res.status).toBe(500)
+    })
+})
+
+describe("fetch handler program sessions", () => {
+    const origin = "https://donuts.com"
+    const launchUrl = (entry: string, network: object) => {
+        const csp = encodeURIComponent("default-src 'self';")
+        const permissions = encodeURIComponent(JSON.stringify(network))
+        return `${origin}/runProgram?csp=${csp}&entry=${encodeURIComponent(entry)}&network=${permissions}`
+    }
+
+    it("programs in different clients should not share permissions, routes or stats", async () => {
+        const cookiesUrl = "https://cookies.com/index.js"
+        const pizzaUrl = "https://pizza.com/index.js"
+        const [adaptors] = createFileCache({
+            networkFileHandlers: {
+                [cookiesUrl]: () => new Response("", {status: 200}),
+                [pizzaUrl]: () => new Response("", {status: 200}),
+            }
+        })
+        const sessions = createProgramSessionRegistry()
+        const handler = createFetchHandler({origin, ...adaptors, sessions})
+        const cookiesLaunch = fetchEvent(launchUrl(cookiesUrl, {
+            allowNetwork: true, allowedOrigins: ["https://cookies.com"]
+        })).event
+        const pizzaLaunch = fetchEvent(launchUrl(pizzaUrl, {
+            allowNetwork: true, allowedOrigins: ["https://pizza.com"]
+        })).event
+        expect((await handler({...cookiesLaunch, resultingClientId: "cookies"})).status).toBe(200)
+        expect((await handler({...pizzaLaunch, resultingClientId: "pizza"})).status).toBe(200)
+        expect(sessions.peek("cookies")?.entry).toBe(cookiesUrl)
+        expect(sessions.peek("pizza")?.entry).toBe(pizzaUrl)
+
+        const pizzaSession = sessions.peek("pizza")!
+        pizzaSession.policyRoutes = compilePolicyRoutes([
+            {type: "glob", pattern: "https://pizza.com/**", policy: CACHE_ONLY_POLICY}
+        ])
+
+        const cookiesFromCookies = fetchEvent(cookiesUrl, policies.networkOnly).event
+        expect((await handler({...cookiesFromCookies, clientId: "cookies"})).status).toBe(200)
+        const pizzaFromCookies = fetchEvent(pizzaUrl, policies.networkOnly).event
+        expect((await handler({...pizzaFromCookies, clientId: "cookies"})).status).toBe(403)
+        // pizza's routes force a cache only lookup, which misses
+        const pizzaFromPizza = fetchEvent(pizzaUrl, policies.networkOnly).event
+        expect((await handler({...pizzaFromPizza, clientId: "pizza"})).status).toBe(404)
+
+        expect(sessions.peek("cookies")?.stats.requests).toBe(2)
+        expect(sessions.peek("cookies")?.stats.networkDenials).toBe(1)
+        expect(sessions.peek("pizza")?.stats.requests).toBe(1)
+        expect(sessions.peek("pizza")?.stats.networkDenials).toBe(0)
+    })
+
+    it("sessions of clients that have gone away should be removed on next launch", async () => {
+        const entry = "https://cookies.com/index.js"
+        const [adaptors] = createFileCache({})
+        const sessions = createProgramSessionRegistry()
+        const activeClients = ["first"]
+        const handler = createFetchHandler({
+            origin, 
+            ...adaptors, 
+            sessions,
+            getActiveClientIds: async () => activeClients
+        })
+        const launch = fetchEvent(launchUrl(entry, {allowNetwork: false, allowedOrigins: []})).event
+        await handler({...launch, resultingClientId: "first"})
+        sessions.peek("first")!.launchedAt = 0
+        activeClients.length = 0
+        await handler({...launch, resultingClientId: "second"})
+        await new Promise((resolve) => setTimeout(resolve, 0))
+        expect(sessions.peek("first")).toBe(null)
+        expect(sessions.peek("second")).not.toBe(null)
+    })
+
+    it("sessions should be restored by a handler rebuilt over the same store", async () => {
+        const fileUrl = "https://cookies.com/index.js"
+        const [adaptors] = createFileCache({
+            networkFileHandlers: {
+                [fileUrl]: () => new Response("", {status: 200}),
+            }
+        })
+        const stored = new Map<string, StoredProgramSession>()
+        const store: ProgramSessionStore = {
+            load: async (clientId) => stored.get(clientId) || null,
+            save: async (session) => { stored.set(session.clientId, structuredClone(session)) },
+            remove: async (clientId) => stored.delete(clientId),
+            clientIds: async () => [...stored.keys()]
+        }
+        const clientUrls: Record<string, string> = {
+            program: launchUrl(fileUrl, {allowNetwork: true, allowedOrigins: ["https://cookies.com"]}),
+            unlaunched: launchUrl(fileUrl, {allowNetwork: true, allowedOrigins: ["*"]}),
+            root: `${origin}/`
+        }
+        const handlerOptions = {
+            origin, 
+            ...adaptors, 
+            getClientUrl: async (clientId: string) => clientUrls[clientId] || null
+        }
+        const handler = createFetchHandler({
+            ...handlerOptions, 
+            sessions: createProgramSessionRegistry({store})
+        })
+        const launch = fetchEvent(clientUrls.program).event
+        expect((await handler({...launch, resultingClientId: "program"})).status).toBe(200)
+
+        // worker was stopped and started again
+        const restarted = createFetchHandler({
+            ...handlerOptions, 
+            sessions: createProgramSessionRegistry({store})
+        })
+        const fromProgram = fetchEvent(fileUrl, policies.networkOnly).event
+        expect((await restarted({...fromProgram, clientId: "program"})).status).toBe(200)
+        // restored network permissions still apply
+        const denied = fetchEvent("https://pizza.com/index.js", policies.networkOnly).event
+        expect((await restarted({...denied, clientId: "program"})).status).toBe(403)
+
+        // program clients that never had a session are still refused
+        const fromUnlaunched = fetchEvent(fileUrl, policies.networkOnly).event
+        const refused = await restarted({...fromUnlaunched, clientId: "unlaunched"})
+        expect(refused.status).toBe(403)
+        expect(refused.headers.get(errorCodeHeader)).toBe(PROGRAM_SESSION_MISSING)
+        const fromRoot = fetchEvent(fileUrl, policies.networkOnly).event
+        expect((await restarted({...fromRoot, clientId: "root"})).status).toBe(200)
+    })
+})
+
+describe("fetch handler request logging", () => {
+    const origin = "https://donuts.com"
+    const requestUrl = "https://cookies.com/assets/cookie.png"
+
+    const createLoggingHandler = (config: Parameters<typeof createFetchHandler>[0]["config"]) => {
+        const [adaptors] = createFileCache({
+            networkFileHandlers: {
+                [requestUrl]: () => new Response("", {status: 200})
+            }
+        })
+        const records = [] as RequestLogRecord[]
+        const handler = createFetchHandler({
+            origin, 
+            ...adaptors, 
+            config,
+            log: (_, record) => { records.push(record) }
+        })
+        return {handler, records} as const
+    }
+
+    it("structured records should be emitted if logging is enabled", async () => {
+        const {handler, records} = createLoggingHandler({log: true})
+        const {event} = fetchEvent(requestUrl, policies.networkOnly)
+        await handler({...event, clientId: "program"})
+        expect(records.length).toBeGreaterThan(0)
+        expect(records[0].url).toBe(requestUrl)
+        expect(records[0].policy).toBe(NETWORK_ONLY_POLICY)
+        expect(records[0].clientId).toBe("program")
+        expect(JSON.parse(JSON.stringify(records[0]))).toStrictEqual(records[0])
+
+        const disabled = createLoggingHandler({log: false})
+        await disabled.handler(fetchEvent(requestUrl, policies.networkOnly).event)
+        expect(disabled.records.length).toBe(0)
+    })
+
+    it("records should be filtered by level, url and policy", async () => {
+        const config = {
+            log: true,
+            logFilter: compileLogFilter({
+                urls: [{type: "glob", pattern: "https://cookies.com/**"}],
+                policies: [CACHE_ONLY_POLICY]
+            })
+        }
+        const {handler, records} = createLoggingHandler(config)
+        await handler(fetchEvent(requestUrl, policies.networkOnly).event)
+        expect(records.length).toBe(0)
+        await handler(fetchEvent(requestUrl, policies.cacheOnly).event)
+        expect(records.length).toBeGreaterThan(0)
+        expect(records.every((record) => record.policy === CACHE_ONLY_POLICY)).toBe(true)
+    })
+
+    it("error responses should be logged as warnings or errors", async () => {
+        const {handler, records} = createLoggingHandler({log: true, logLevel: "warn"})
+        await handler(fetchEvent(requestUrl, policies.networkOnly).event)
+        expect(records.length).toBe(0)
+        const response = await handler(fetchEvent(`${origin}/runProgram`).event)
+        expect(response.status).toBe(500)
+        expect(records.length).toBe(1)
+        expect(records[0].level).toBe("error")
+        expect(records[0].tag).toBe(TEMPLATE_PARAMETER_ERROR)
+    })
+
+    it("log settings of a program should only apply to its own requests", async () => {
+        const [adaptors] = createFileCache({
+            networkFileHandlers: {
+                [requestUrl]: () => new Response("", {status: 200})
+            }
+        })
+        const records = [] as RequestLogRecord[]
+        const sessions = createProgramSessionRegistry()
+        const handler = createFetchHandler({
+            origin, 
+            ...adaptors, 
+            sessions,
+            config: {log: false},
+            log: (_, record) => { records.push(record) }
+        })
+        const launchUrl = `${origin}/runProgram?csp=${encodeURIComponent("default-src 'self';")}&entry=${encodeURIComponent("https://cookies.com/index.js")}`
+        for (const clientId of ["logging", "quiet"]) {
+            await handler({...fetchEvent(launchUrl).event, resultingClientId: clientId})
+        }
+        sessions.peek("logging")!.logSettings = {log: true, logLevel: "debug", logFilter: null}
+        for (const clientId of ["quiet", "", "logging"]) {
+            await handler({...fetchEvent(requestUrl, policies.networkOnly).event, clientId})
+        }
+        expect(records.length).toBeGreaterThan(0)
+        expect(records.every((record) => record.clientId === "logging")).toBe(true)
+    })
+})
+
+describe("fetch handler request metrics", () => {
+    const origin = "https://donuts.com"
+    const requestUrl = "https://cookies.com/assets/cookie.png"
+
+    it("cache hits, misses and network errors should be recorded per policy", async () => {
+        const [adaptors] = createFileCache({
+            clientFileHandlers: {
+                [requestUrl]: () => new Response("cookie", {
+                    status: 200, 
+                    headers: {"content-length": "6"}
+                })
+            }
+        })
+        const metrics = createRequestMetrics()
+        const handler = createFetchHandler({origin, ...adaptors, metrics})
+        await handler(fetchEvent(requestUrl, policies.cacheFirst).event)
+        await handler(fetchEvent("https://cookies.com/missing.png", policies.cacheOnly).event)
+        const failingHandler = createFetchHandler({
+            origin, 
+            ...adaptors, 
+            networkFetch: async () => { throw new Error("offline") },
+            metrics
+        })
+        await failingHandler(fetchEvent(requestUrl, policies.networkOnly).event)
+
+        const {policies: recorded} = metrics.snapshot()
+        expect(recorded.cacheFirst?.requests).toBe(1)
+        expect(recorded.cacheFirst?.cacheHits).toBe(1)
+        expect(recorded.cacheFirst?.bytes).toBe(6)
+        expect(recorded.cacheOnly?.cacheMisses).toBe(1)
+        expect(recorded.networkOnly?.networkErrors).toBe(1)
+    })
+
+    it("in memory document fallbacks should be recorded", async () => {
+        const [adaptors] = createFileCache({})
+        const metrics = createRequestMetrics()
+        const handler = createFetchHandler({
+            origin, 
+            ...adaptors, 
+            networkFetch: async () => { throw new Error("offline") },
+            metrics
+        })
+        await handler(fetchEvent(`${origin}/`).event)
+        await handler(fetchEvent(`${origin}/secure.compiled.js`).event)
+        expect(metrics.snapshot().inMemoryFallbacks).toStrictEqual({
+            rootDocument: 1,
+            secureScript: 1
+        })
+    })
+
+    it("cache hits and misses should be recorded per program", async () => {
+        const [adaptors] = createFileCache({
+            clientFileHandlers: {
+                [requestUrl]: () => new Response("", {status: 200})
+            }
+        })
+        const sessions = createProgramSessionRegistry()
+        const handler = createFetchHandler({origin, ...adaptors, sessions})
+        const csp = encodeURIComponent("default-src 'self';")
+        const launch = fetchEvent(`${origin}/runProgram?csp=${csp}&entry=${encodeURIComponent(requestUrl)}`).event
+        await handler({...launch, resultingClientId: "program"})
+        const hit = fetchEvent(requestUrl, policies.cacheOnly).event
+        await handler({...hit, clientId: "program"})
+        const miss = fetchEvent("https://cookies.com/missing.png", policies.cacheOnly).event
+        await handler({...miss, clientId: "program"})
+        expect(sessions.peek("program")?.stats.cacheHits).toBe(1)
+        expect(sessions.peek("program")?.stats.cacheMisses).toBe(1)
+    })
+})
+
+describe("fetch handler har recording", () => {
+    const origin = "https://donuts.com"
+    const requestUrl = "https://cookies.com/assets/cookie.png"
+    const launchUrl = `${origin}/runProgram?csp=${encodeURIComponent("default-src 'self';")}&entry=${encodeURIComponent("https://cookies.com/index.js")}`
+
+    const launchProgram = async (
+        handler: ReturnType<typeof createFetchHandler>,
+        clientId: string
+    ) => {
+        await handler({...fetchEvent(launchUrl).event, resultingClientId: clientId})
+    }
+
+    it("handled requests should be recorded with their source and policy", async () => {
+        const [adaptors] = createFileCache({
+            clientFileHandlers: {
+                [requestUrl]: () => new Response("", {status: 200})
+            },
+            networkFileHandlers: {
+                [requestUrl]: () => new Response("", {status: 200})
+            }
+        })
+        const sessions = createProgramSessionRegistry()
+        const handler = createFetchHandler({origin, ...adaptors, sessions})
+        await launchProgram(handler, "program")
+        const recorder = createHarRecorder()
+        sessions.peek("program")!.recorder = recorder
+        const fromProgram = (url: string, headers: Record<string, string> = {}) => ({
+            ...fetchEvent(url, headers).event,
+            clientId: "program"
+        })
+        await handler(fromProgram(requestUrl, policies.networkOnly))
+        expect(recorder.export().log.entries.length).toBe(0)
+
+        recorder.start()
+        const waiting = [] as Promise<unknown>[]
+        const track = (event: FetchHandlerEvent) => ({
+            ...event, 
+            waitUntil: (promise: Promise<unknown>) => { waiting.push(promise) }
+        })
+        await handler(track(fromProgram(requestUrl, policies.networkOnly)))
+        await handler(track(fromProgram(requestUrl, policies.cacheOnly)))
+        await handler(track(fromProgram(`${origin}/runProgram`)))
+        await Promise.all(waiting)
+        const entries = recorder.export().log.entries
+        expect(entries.map((entry) => entry._source)).toStrictEqual([
+            "network", "client-cache", "in-memory"
+        ])
+        expect(entries.map((entry) => entry._policy)).toStrictEqual([
+            NETWORK_ONLY_POLICY, CACHE_ONLY_POLICY, null
+        ])
+    })
+
+    it("requests of other clients should not be recorded", async () => {
+        const [adaptors] = createFileCache({
+            networkFileHandlers: {
+                [requestUrl]: () => new Response("", {status: 200})
+            }
+        })
+        const sessions = createProgramSessionRegistry()
+        const handler = createFetchHandler({origin, ...adaptors, sessions})
+        await launchProgram(handler, "recording")
+        await launchProgram(handler, "other")
+        const recorder = createHarRecorder()
+        recorder.start()
+        sessions.peek("recording")!.recorder = recorder
+        const waiting = [] as Promise<unknown>[]
+        for (const clientId of ["other", "", "recording"]) {
+            await handler({
+                ...fetchEvent(requestUrl, policies.networkOnly).event,
+                clientId,
+                waitUntil: (promise) => { waiting.push(promise) }
+            })
+        }
+        await Promise.all(waiting)
+        const entries = recorder.export().log.entries
+        expect(entries.length).toBe(1)
+        expect(entries[0]._clientId).toBe("recording")
+    })
+
+    it("request bodies should be recorded if enabled", async () => {
+        const [adaptors] = createFileCache({
+            networkFileHandlers: {
+                [requestUrl]: () => new Response("", {status: 200})
+            }
+        })
+        const sessions = createProgramSessionRegistry()
+        const handler = createFetchHandler({origin, ...adaptors, sessions})
+        await launchProgram(handler, "program")
+        const recorder = createHarRecorder()
+        recorder.start({maxBodyBytes: 100})
+        sessions.peek("program")!.recorder = recorder
+        const waiting = [] as Promise<unknown>[]
+        const {event} = fetchEvent(requestUrl, policies.networkOnly)
+        await handler({
+            ...event,
+            clientId: "program",
+            request: new Request(requestUrl, {
+                method: "POST",
+                body: "{\"cookies\":1}",
+                headers: {...policies.networkOnly, "content-type": "application/json"}
+            }),
+            waitUntil: (promise) => { waiting.push(promise) }
+        })
+        await Promise.all(waiting)
+        const [entry] = recorder.export().log.entries
+        expect(entry.request.method).toBe("POST")
+        expect(entry.request.postData?.text).toBe("{\"cookies\":1}")
+    })
+})
@@ -1,14 +1,92 @@
-import {cacheHit, NOT_FOUND_RESPONSE, errorResponse, LogFn} from "./serviceWorkerMeta"
-import {fetchCore} from "./fetchCore"
+import {
+    cacheHit,
+    isCacheHit,
+    errorResponse,
+    TEMPLATE_PARAMETER_ERROR,
+    NOT_FOUND,
+    LAUNCH_TOKEN_INVALID,
+    INTEGRITY_MISMATCH,
+    PROGRAM_SESSION_MISSING,
+    serviceWorkerErrorCodeHeader as errorCodeHeader,
+    NetworkDenial,
+    LogFn,
+    LogLevel,
+    RequestLogRecord,
+    formatLogRecord,
+    isServiceWorkerPolicy,
+    ServiceWorkerPolicy,
+    CACHE_FIRST_POLICY,
+    DEFAULT_NETWORK_TIMEOUT_MILLISECONDS,
+    serviceWorkerPolicyHeader as policyHeader
+} from "./serviceWorkerMeta"
+import {fetchCore, FetchCoreOptions} from "./fetchCore"
+import {CompiledPolicyRoute, matchPolicyRoute} from "./policyRoutes"
+import type {WorkerCache} from "./workerCache"
+import {createRequestCoalescer, isCoalescable} from "./requestCoalescer"
+import type {RequestQueue} from "./requestQueue"
+import {runMiddleware, FetchMiddleware} from "./fetchMiddleware"
+import {
+    parseNetworkPermissions, 
+    guardNetworkFetch, 
+    guardRequestQueue,
+    NetworkPermissions
+} from "./networkPermissions"
+import {
+    parseContentSecurityPolicy,
+    buildContentSecurityPolicy,
+    CspConfig
+} from "./contentSecurityPolicy"
+import type {LaunchClaims, LaunchTokenVerifier} from "./launchTokens"
+import {
+    fetchProgramManifest,
+    programSecurityPolicy,
+    programNetworkPermissions,
+    ProgramManifest
+} from "./programManifest"
+import {createProgramSessionRegistry, ProgramSessionRegistry} from "./programSessions"
+import {shouldEmitRecord, CompiledLogFilter} from "./requestLog"
+import type {RequestMetrics, RequestOutcome} from "./requestMetrics"
+import type {HarEntrySource} from "./harRecorder"
+import {
+    parseIntegrityManifest,
+    verifyIntegrity,
+    streamIntegrity,
+    shouldBufferIntegrity,
+    IntegrityManifest
+} from "./subresourceIntegrity"
+import {rangeResponse} from "./rangeRequests"
 import IndexHtml from "../serviceWorker/index-html.inlined.json"
 import SecureMjs from "../serviceWorker/secure-compiled-mjs.inlined.json"
 import {INDEX_HTML_LENGTH, SECURE_MJS_LENGTH} from "../serviceWorker/inlinedMeta"
 import { RUN_PROGRAM_PATHNAME } from "../config"
 
+const escapeAttribute = (value: string) => value
+    .replace(/&/g, "&amp;")
+    .replace(/"/g, "&quot;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+
+/** throws if entry is not an absolute http(s) url */
+const parseEntryUrl = (entry: string) => {
+    const url = new URL(entry)
+    if (url.protocol !== "https:" && url.protocol !== "http:") {
+        throw new Error(`expected an http(s) url, got "${url.protocol}"`)
+    }
+    return url.href
+}
+
 const generateTemplate = ({
     importSource, 
-    securityPolicy
-}: {importSource: string, securityPolicy: string}) => {
+    securityPolicy,
+    program
+}: {
+    importSource: string, 
+    securityPolicy: string, 
+    program: ProgramManifest | null
+}) => {
+    const manifestAttribute = program
+        ? ` manifest="${escapeAttribute(JSON.stringify(program))}"`
+        : ""
     return `
 <!DOCTYPE html>
 <html lang="en">
@@ -17,14 +95,63 @@ const generateTemplate = ({
     <meta http-equiv="X-UA-Compatible" content="IE=edge">
     <meta name="viewport" content="width=device-width, initial-scale=1.0">
     <title>Sandbox</title>
-    <meta http-equiv="Content-Security-Policy" content="${securityPolicy}"/>
+    <meta http-equiv="Content-Security-Policy" content="${escapeAttribute(securityPolicy)}"/>
 </head>
 <body>
-    <script entry="${importSource}" id="root-script" src="./secure.compiled.js" type="module" defer> </script>
+    <script entry="${escapeAttribute(importSource)}"${manifestAttribute} id="root-script" src="./secure.compiled.js" type="module" defer> </script>
 </body>
 </html>`.trim()
 }
 
+/**
+ * Query values are decoded once here, and the same values
+ * are both checked against launch token and used to launch
+ * program. Throws if "entry" or "csp" is malformed.
+ */
+const launchClaims = (params: URLSearchParams): LaunchClaims => ({
+    entry: decodeURIComponent(params.get("entry") || ""),
+    csp: params.get("cspConfig") ?? decodeURIComponent(params.get("csp") || ""),
+    network: params.get("network"),
+    integrity: params.get("integrity"),
+    manifest: params.get("manifest"),
+    // known once manifest is fetched
+    manifestDigest: null
+})
+
+/**
+ * Programs can either supply a policy string ("csp" query)
+ * or a structured policy as json ("cspConfig" query),
+ * both are checked against the sandbox baseline.
+ */
+const resolveSecurityPolicy = (params: URLSearchParams, claims: LaunchClaims) => {
+    if (params.has("cspConfig")) {
+        const config = JSON.parse(claims.csp) as CspConfig
+        if (
+            typeof config !== "object"
+            || config === null
+            || typeof config.directives !== "object"
+            || config.directives === null
+        ) {
+            throw new Error("expected an object with a 'directives' field")
+        }
+        return buildContentSecurityPolicy(config)
+    }
+    return buildContentSecurityPolicy({
+        directives: parseContentSecurityPolicy(claims.csp)
+    })
+}
+
+const withoutRangeHeaders = (request: Request) => {
+    const headers = new Headers(request.headers)
+    headers.delete("range")
+    headers.delete("if-range")
+    return new Request(request, {headers})
+}
+
+// sessions of clients that have gone away are 
+// removed at most this often, and on every launch
+const SESSION_PRUNE_INTERVAL_MILLISECONDS = 30_000
+
 export type FileCache = {
     getClientFile: (url: string, clientId: string) => Promise<Response | null>
 }
@@ -39,6 +166,10 @@ export type FetchHandlerEvent = {
 
 type ConfigReference = {
     log: boolean
+    policyRoutes?: ReadonlyArray<CompiledPolicyRoute>
+    /** defaults to "info" */
+    logLevel?: LogLevel
+    logFilter?: CompiledLogFilter | null
 }
 
 type FetchHandlerOptions = {
@@ -48,6 +179,39 @@ type FetchHandlerOptions = {
     inMemoryDocumentHeaders?: Readonly<{[key: string]: string}>
     log: LogFn
     config: Readonly<ConfigReference>
+    onStaleFile?: FetchCoreOptions["onStaleFile"]
+    networkTimeout?: number
+    workerCache?: WorkerCache | null
+    /** share responses between concurrent identical requests */
+    coalesceRequests?: boolean
+    /** persists failed mutating requests for replay, if provided */
+    requestQueue?: RequestQueue | null
+    /** run in order, before requests are handled */
+    middleware?: ReadonlyArray<FetchMiddleware>
+    onNetworkDenied?: (denial: NetworkDenial, clientId: string) => unknown
+    /**
+     * if provided, programs can only be launched with
+     * a launch token ("token" query) signed by the app shell
+     */
+    launchTokens?: LaunchTokenVerifier | null
+    /** 
+     * holds per-client state of launched programs, should have 
+     * a store so that sessions survive worker restarts
+     */
+    sessions?: ProgramSessionRegistry
+    /** 
+     * used to remove sessions of clients that have gone 
+     * away, sessions are never removed if not provided
+     */
+    getActiveClientIds?: () => Promise<ReadonlyArray<string>>
+    /** 
+     * used to refuse requests of programs without a session 
+     * (one that was pruned or could not be persisted for 
+     * example), if provided
+     */
+    getClientUrl?: (clientId: string) => Promise<string | null>
+    /** collects per-policy request metrics, if provided */
+    metrics?: RequestMetrics | null
 }
 
 export const createFetchHandler = (options: FetchHandlerOptions) => {
@@ -58,19 +222,115 @@ export const createFetchHandler = (options: FetchHandlerOptions) => {
         inMemoryDocumentHeaders = {},
         log,
         config,
+        onStaleFile,
+        networkTimeout = DEFAULT_NETWORK_TIMEOUT_MILLISECONDS,
+        workerCache = null,
+        coalesceRequests = true,
+        requestQueue = null,
+        middleware = [],
+        onNetworkDenied = () => {},
+        launchTokens = null,
+        sessions = createProgramSessionRegistry(),
+        getActiveClientIds = null,
+        getClientUrl = null,
+        metrics = null,
     } = options
     const rootDoc = `${origin}/`
     const templateEndpoint = `${origin}${RUN_PROGRAM_PATHNAME}`
     const entryScript = `${origin}/secure.compiled.js`
     const testScript = `${origin}/test.mjs`
     const clientCache = {getFile: fileCache.getClientFile} as const
-    return async (event: FetchHandlerEvent) => {
-        const {request} = event
+    const coalescer = createRequestCoalescer()
+    const logSettings = (clientId: string) => {
+        return sessions.peek(clientId)?.logSettings ?? config
+    }
+    const emitLog: LogFn = (message, record) => {
+        const {logLevel, logFilter} = logSettings(record.clientId)
+        const settings = {
+            level: logLevel || "info",
+            filter: logFilter || null
+        } as const
+        if (shouldEmitRecord(record, settings)) {
+            log(message, record)
+        }
+    }
+    const logErrorResponse = (request: Request, response: Response, clientId: string) => {
+        const code = response.headers.get(errorCodeHeader)
+        if (!code) {
+            return
+        }
+        const policy = parseInt(request.headers.get(policyHeader) || "", 10)
+        const record: RequestLogRecord = {
+            level: response.status >= 500 ? "error" : "warn",
+            tag: code,
+            url: request.url,
+            method: request.method,
+            policy: isServiceWorkerPolicy(policy) ? policy : null,
+            cacheHit: false,
+            cacheStatus: response.status,
+            mode: request.mode,
+            destination: request.destination,
+            clientId,
+            timestamp: Date.now()
+        }
+        emitLog(formatLogRecord(record), record)
+    }
+    const responseSource = (request: Request, response: Response): HarEntrySource => {
+        const generated = (
+            response.headers.has(errorCodeHeader)
+            || request.url.startsWith(templateEndpoint)
+        )
+        if (generated) {
+            return "in-memory"
+        }
+        if (isCacheHit(response)) {
+            return request.url.startsWith(origin) ? "in-memory" : "client-cache"
+        }
+        return "network"
+    }
+    /** null for requests to sandbox origin */
+    const resolvePolicy = (request: Request, clientId: string): ServiceWorkerPolicy | null => {
+        if (request.url.startsWith(origin)) {
+            return null
+        }
+        const routes = sessions.peek(clientId)?.policyRoutes ?? config.policyRoutes ?? []
+        const routed = matchPolicyRoute(routes, request.url)
+        if (routed !== null) {
+            return routed
+        }
+        const policy = parseInt(request.headers.get(policyHeader) || "", 10)
+        return isServiceWorkerPolicy(policy) ? policy : CACHE_FIRST_POLICY
+    }
+    let lastPrunedAt = Date.now()
+    const pruneSessions = (event: FetchHandlerEvent) => {
+        if (!getActiveClientIds) {
+            return
+        }
+        lastPrunedAt = Date.now()
+        event.waitUntil(getActiveClientIds()
+            .then((clientIds) => sessions.prune(clientIds))
+            .catch(() => 0)
+        )
+    }
+    const isProgramClient = async (clientId: string) => {
+        const url = clientId.length > 0 && getClientUrl
+            ? await getClientUrl(clientId).catch(() => null)
+            : null
+        return url !== null && url.startsWith(templateEndpoint)
+    }
+    const templateError = (detail: string, url: string) => errorResponse(detail, {
+        code: TEMPLATE_PARAMETER_ERROR,
+        stage: "template",
+        policy: null,
+        url
+    })
+    const handleRequest = async (request: Request, event: FetchHandlerEvent) => {
         if (request.url.startsWith(origin)) {
             if (request.url === rootDoc) {
                 try {
                     return await networkFetch(request)
                 } catch (err) {
+                    metrics?.recordInMemoryFallback("rootDocument")
                     const inMemoryHtml = new Response(IndexHtml, {
                         status: 200,
                         statusText: "OK",
@@ -87,15 +347,95 @@ export const createFetchHandler = (options: FetchHandlerOptions) => {
             if (request.url.startsWith(templateEndpoint)) {
                 const query = request.url.split("?")
                 if (query.length < 2) {
-                    return errorResponse("template endpoint must have query")
+                    return templateError("template endpoint must have query", request.url)
                 }
                 const params = new URLSearchParams("?" + query[1])
-                if (!params.has("csp") || !params.has("entry")) {
-                    return errorResponse("template endpoint have both an 'csp' and 'entry' query")
+                const hasPolicy = params.has("csp") || params.has("cspConfig")
+                // huzma manifest launches derive entry, csp and 
+                // network permissions from the manifest
+                const manifestUrl = params.get("manifest")
+                if (manifestUrl !== null) {
+                    if (hasPolicy || params.has("entry") || params.has("network")) {
+                        return templateError("template endpoint 'manifest' query cannot be combined with 'csp', 'entry' or 'network' query", request.url)
+                    }
+                } else if (!hasPolicy || !params.has("entry")) {
+                    return templateError("template endpoint have both an 'csp' (or 'cspConfig') and 'entry' query, or a 'manifest' query", request.url)
+                }
+                let claims: LaunchClaims
+                try {
+                    claims = launchClaims(params)
+                } catch (err) {
+                    return templateError(`invalid 'entry' or 'csp' query: ${err}`, request.url)
                 }
-                const securityPolicy = decodeURIComponent(params.get("csp") || "")
-                const importSource = decodeURIComponent(params.get("entry") || "")
-                const templateText = generateTemplate({securityPolicy, importSource})
+                let program: ProgramManifest | null = null
+                if (manifestUrl !== null) {
+                    try {
+                        const fetched = await fetchProgramManifest(networkFetch, manifestUrl, networkTimeout)
+                        program = fetched.program
+                        claims = {...claims, manifestDigest: fetched.digest}
+                    } catch (err) {
+                        return templateError(`invalid 'manifest' query: ${err}`, request.url)
+                    }
+                }
+                if (launchTokens) {
+                    try {
+                        await launchTokens.verify(params.get("token") || "", claims)
+                    } catch (err) {
+                        return errorResponse(err, {
+                            code: LAUNCH_TOKEN_INVALID,
+                            stage: "template",
+                            policy: null,
+                            url: request.url
+                        })
+                    }
+                }
+                let securityPolicy: string
+                let importSource: string
+                let permissions: NetworkPermissions | null = null
+                if (program) {
+                    try {
+                        securityPolicy = buildContentSecurityPolicy(programSecurityPolicy(program))
+                    } catch (err) {
+                        return templateError(`invalid 'manifest' query: ${err}`, request.url)
+                    }
+                    importSource = program.entry
+                    permissions = programNetworkPermissions(program)
+                } else {
+                    try {
+                        securityPolicy = resolveSecurityPolicy(params, claims)
+                    } catch (err) {
+                        return templateError(`invalid content security policy: ${err}`, request.url)
+                    }
+                    try {
+                        importSource = parseEntryUrl(claims.entry)
+                    } catch (err) {
+                        return templateError(`invalid 'entry' query: ${err}`, request.url)
+                    }
+                    if (params.has("network")) {
+                        try {
+                            permissions = parseNetworkPermissions(params.get("network") || "")
+                        } catch (err) {
+                            return templateError(`invalid 'network' query: ${err}`, request.url)
+                        }
+                    }
+                }
+                let integrity: IntegrityManifest | null = null
+                if (params.has("integrity")) {
+                    try {
+                        integrity = parseIntegrityManifest(params.get("integrity") || "")
+                    } catch (err) {
+                        return templateError(`invalid 'integrity' query: ${err}`, request.url)
+                    }
+                }
+                await sessions.create(event.resultingClientId, {
+                    entry: importSource,
+                    securityPolicy,
+                    manifest: program,
+                    networkPermissions: permissions,
+                    integrity
+                })
+                pruneSessions(event)
+                const templateText = generateTemplate({securityPolicy, importSource, program})
                 return new Response(templateText, {
                     status: 200,
                     statusText: "OK",
@@ -111,6 +451,7 @@ export const createFetchHandler = (options: FetchHandlerOptions) => {
                 try {
                     return await networkFetch(entryScript)
                 } catch {
+                    metrics?.recordInMemoryFallback("secureScript")
                     const inMemorySecureMjs = new Response(SecureMjs, {
                         status: 200,
                         statusText: "OK",
@@ -127,16 +468,151 @@ export const createFetchHandler = (options: FetchHandlerOptions) => {
             if (request.url.startsWith(testScript)) {
                 return networkFetch(request)
             }
-            return NOT_FOUND_RESPONSE
+            return errorResponse(`${request.url} does not exist`, {
+                code: NOT_FOUND,
+                stage: "sandbox-origin",
+                policy: null,
+                url: request.url
+            })
         }
 
-        return fetchCore(
-            request,
-            networkFetch,
-            clientCache,
-            event.clientId || event.resultingClientId,
-            log,
-            config.log,
+        const clientId = event.clientId || event.resultingClientId
+        const session = await sessions.get(clientId)
+        if (!session && await isProgramClient(clientId)) {
+            return errorResponse(`program client ${clientId} has no session`, {
+                code: PROGRAM_SESSION_MISSING,
+                stage: "session",
+                policy: null,
+                url: request.url
+            })
+        }
+        if (Date.now() - lastPrunedAt > SESSION_PRUNE_INTERVAL_MILLISECONDS) {
+            pruneSessions(event)
+        }
+        if (session) {
+            session.stats.requests++
+            session.stats.lastRequestAt = Date.now()
+        }
+        const routes = session?.policyRoutes ?? config.policyRoutes ?? []
+        const policy = matchPolicyRoute(routes, request.url)
+        const permissions = session?.networkPermissions
+        const onDenied = (denial: NetworkDenial) => {
+            if (session) {
+                session.stats.networkDenials++
+            }
+            event.waitUntil(Promise.resolve(onNetworkDenied(denial, clientId)))
+        }
+        const programFetch = permissions
+            ? guardNetworkFetch(networkFetch, permissions)
+            : networkFetch
+        const programQueue = permissions && requestQueue
+            ? guardRequestQueue(requestQueue, permissions, onDenied)
+            : requestQueue
+        const integrity = session?.integrity?.[request.url]
+        const recordOutcome = (outcome: RequestOutcome) => {
+            metrics?.recordRequest(outcome)
+            if (!session) {
+                return
+            }
+            session.stats.cacheHits += outcome.cacheHit ? 1 : 0
+            session.stats.cacheMisses += outcome.cacheMiss ? 1 : 0
+            session.stats.bytes += outcome.bytes
+        }
+        // integrity can only be checked against the whole file, 
+        // which is ranged once verified
+        const coreRequest = integrity && request.headers.has("range")
+            ? withoutRangeHeaders(request)
+            : request
+        const fetchFromCore = async () => {
+            const response = await fetchCore(
+                coreRequest,
+                programFetch,
+                clientCache,
+                clientId,
+                emitLog,
+                logSettings(clientId).log,
+                {
+                    waitUntil: (promise) => event.waitUntil(promise),
+                    onStaleFile,
+                    networkTimeout,
+                    policy,
+                    workerCache,
+                    // programs launched with the same entry share files
+                    cacheScope: session ? session.entry : clientId,
+                    requestQueue: programQueue,
+                    onNetworkDenied: onDenied,
+                    onRequestComplete: metrics || session 
+                        ? recordOutcome 
+                        : undefined
+                }
+            )
+            if (!integrity) {
+                return response
+            }
+            const onMismatch = () => {
+                if (session) {
+                    session.stats.integrityFailures++
+                }
+            }
+            if (!shouldBufferIntegrity(request, response)) {
+                return streamIntegrity(request.url, response, integrity, onMismatch)
+            }
+            const verified = await verifyIntegrity(request.url, response, integrity)
+            if (verified.headers.get(errorCodeHeader) === INTEGRITY_MISMATCH) {
+                onMismatch()
+                return verified
+            }
+            return rangeResponse(request, verified)
+        }
+        if (!coalesceRequests || !isCoalescable(request)) {
+            return fetchFromCore()
+        }
+        const requestPolicy = policy ?? request.headers.get(policyHeader) ?? ""
+        const key = `${clientId} ${requestPolicy} ${request.url}`
+        return coalescer.coalesce(key, fetchFromCore)
+    }
+    const handleWithMiddleware = (request: Request, event: FetchHandlerEvent) => {
+        if (middleware.length < 1) {
+            return handleRequest(request, event)
+        }
+        const context = {
+            event, 
+            clientId: event.clientId || event.resultingClientId
+        } as const
+        return runMiddleware(
+            middleware, 
+            request, 
+            context,
+            (request) => handleRequest(request, event)
         )
     }
+    return async (event: FetchHandlerEvent) => {
+        const {request} = event
+        const clientId = event.clientId || event.resultingClientId
+        // restores session, if worker was restarted
+        const recorder = (await sessions.get(clientId))?.recorder
+        const startedAt = Date.now()
+        const hasBody = request.method !== "GET" && request.method !== "HEAD"
+        const requestCopy = recorder?.recordsBodies() && hasBody
+            ? request.clone()
+            : null
+        const response = await handleWithMiddleware(request, event)
+        if (logSettings(clientId).log) {
+            logErrorResponse(request, response, clientId)
+        }
+        if (recorder?.isRecording()) {
+            const recorded = recorder.record({
+                request,
+                requestCopy,
+                response,
+                startedAt,
+                milliseconds: Date.now() - startedAt,
+                source: responseSource(request, response),
+                policy: resolvePolicy(request, clientId),
+                clientId
+            })
+            event.waitUntil(recorded.catch(() => {}))
+        }
+        return response
+    }
 }
@@ -0,0 +1,102 @@
+import type {FetchHandlerEvent} from "./fetchHandler"
+import {errorResponse, MIDDLEWARE_ERROR} from "./serviceWorkerMeta"
+
+export type MiddlewareContext = {
+    readonly event: FetchHandlerEvent
+    readonly clientId: string
+}
+
+type MaybePromise<T> = T | Promise<T>
+
+export type FetchMiddleware = {
+    /** used in logs */
+    name: string
+    /**
+     * Return a request to replace the incoming request 
+     * (e.g. rewrites or extra headers), a response to
+     * short-circuit all following middleware & the
+     * handler, or nothing to continue unchanged.
+     */
+    onRequest?: (
+        request: Request, 
+        context: MiddlewareContext
+    ) => MaybePromise<Request | Response | void>
+    /**
+     * Return a response to replace the outgoing response,
+     * or nothing to continue unchanged. Runs in reverse
+     * order, only for middleware whose onRequest step ran.
+     */
+    onResponse?: (
+        response: Response, 
+        request: Request, 
+        context: MiddlewareContext
+    ) => MaybePromise<Response | void>
+}
+
+const middlewareError = (
+    err: unknown, 
+    name: string, 
+    step: "onRequest" | "onResponse",
+    request: Request
+) => {
+    return errorResponse(`middleware "${name}" threw in ${step}: ${err}`, {
+        code: MIDDLEWARE_ERROR,
+        stage: "middleware",
+        policy: null,
+        url: request.url
+    })
+}
+
+/**
+ * Middleware that throws is answered with an error 
+ * response, as if it had returned one.
+ */
+export const runMiddleware = async (
+    middleware: ReadonlyArray<FetchMiddleware>,
+    request: Request,
+    context: MiddlewareContext,
+    handler: (request: Request) => Promise<Response>
+) => {
+    let current = request
+    let response: Response | null = null
+    let ran = 0
+    while (ran < middleware.length) {
+        const {onRequest, name} = middleware[ran]
+        ran++
+        if (!onRequest) {
+            continue
+        }
+        let result: Request | Response | void
+        try {
+            result = await onRequest(current, context)
+        } catch (err) {
+            result = middlewareError(err, name, "onRequest", current)
+        }
+        if (result instanceof Response) {
+            response = result
+            break
+        }
+        if (result instanceof Request) {
+            current = result
+        }
+    }
+    if (!response) {
+        response = await handler(current)
+    }
+    for (let i = ran - 1; i >= 0; i--) {
+        const {onResponse, name} = middleware[i]
+        if (!onResponse) {
+            continue
+        }
+        let replacement: Response | void
+        try {
+            replacement = await onResponse(response, current, context)
+        } catch (err) {
+            replacement = middlewareError(err, name, "onResponse", current)
+        }
+        if (replacement instanceof Response) {
+            response = replacement
+        }
+    }
+    return response
+}
@@ -0,0 +1,82 @@
+import {expect, it, describe} from "vitest"
+import {createHarRecorder, HarRequestRecord} from "./harRecorder"
+import {NETWORK_ONLY_POLICY} from "./serviceWorkerMeta"
+
+const record = (
+    response: Response, 
+    request = new Request("https://cookies.com/index.js?v=1")
+): HarRequestRecord => ({
+    request,
+    requestCopy: null,
+    response,
+    startedAt: 0,
+    milliseconds: 12,
+    source: "network",
+    policy: NETWORK_ONLY_POLICY,
+    clientId: "program"
+})
+
+describe("har recorder", () => {
+    it("requests should only be recorded while recording", async () => {
+        const recorder = createHarRecorder()
+        await recorder.record(record(new Response("")))
+        expect(recorder.export().log.entries.length).toBe(0)
+        recorder.start()
+        await recorder.record(record(new Response("")))
+        recorder.stop()
+        await recorder.record(record(new Response("")))
+        const {log} = recorder.export()
+        expect(log.version).toBe("1.2")
+        expect(log.entries.length).toBe(1)
+        const [entry] = log.entries
+        expect(entry.startedDateTime).toBe(new Date(0).toISOString())
+        expect(entry.time).toBe(12)
+        expect(entry.request.queryString).toStrictEqual([{name: "v", value: "1"}])
+        expect(entry._source).toBe("network")
+        expect(entry._policy).toBe(NETWORK_ONLY_POLICY)
+        expect(entry._clientId).toBe("program")
+        expect(JSON.parse(JSON.stringify(log))).toStrictEqual(log)
+    })
+
+    it("oldest entries should be dropped once limit is exceeded", async () => {
+        const recorder = createHarRecorder()
+        recorder.start({maxEntries: 2})
+        for (const status of [200, 201, 202]) {
+            await recorder.record(record(new Response("", {status})))
+        }
+        const statuses = recorder.export().log.entries.map((entry) => entry.response.status)
+        expect(statuses).toStrictEqual([201, 202])
+    })
+
+    it("bodies should only be recorded up to limit, without consuming response", async () => {
+        const recorder = createHarRecorder()
+        recorder.start()
+        expect(recorder.recordsBodies()).toBe(false)
+        await recorder.record(record(new Response("console.log(0)")))
+        expect(recorder.export().log.entries[0].response.content.text).toBe(undefined)
+
+        recorder.start({maxBodyBytes: 7})
+        expect(recorder.recordsBodies()).toBe(true)
+        const response = new Response("console.log(0)", {
+            headers: {"content-type": "text/javascript"}
+        })
+        await recorder.record(record(response))
+        expect(await response.text()).toBe("console.log(0)")
+        const {content} = recorder.export().log.entries[0].response
+        expect(content.text).toBe("console")
+        expect(content.comment).toBe("truncated to 7 bytes")
+    })
+
+    it("binary bodies should be base64 encoded", async () => {
+        const recorder = createHarRecorder()
+        recorder.start({maxBodyBytes: 10})
+        const response = new Response(new Uint8Array([0, 1, 2]), {
+            headers: {"content-type": "image/png"}
+        })
+        await recorder.record(record(response))
+        const {content} = recorder.export().log.entries[0].response
+        expect(content.encoding).toBe("base64")
+        expect(content.text).toBe(btoa(String.fromCharCode(0, 1, 2)))
+        expect(content.comment).toBe(undefined)
+    })
+})
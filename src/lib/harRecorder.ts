@@ -0,0 +1,252 @@
+import type {ServiceWorkerPolicy} from "./serviceWorkerMeta"
+import {name as packageName, version as packageVersion} from "../../package.json"
+
+/** where the service worker got a response from */
+export type HarEntrySource = "network" | "client-cache" | "in-memory"
+
+export type HarNameValue = {name: string, value: string}
+
+export type HarContent = {
+    size: number
+    mimeType: string
+    text?: string
+    encoding?: "base64"
+    comment?: string
+}
+
+/** HAR 1.2 entry, custom fields are prefixed with "_" as per spec */
+export type HarEntry = {
+    startedDateTime: string
+    time: number
+    request: {
+        method: string
+        url: string
+        httpVersion: string
+        cookies: HarNameValue[]
+        headers: HarNameValue[]
+        queryString: HarNameValue[]
+        postData?: {mimeType: string, text: string, comment?: string}
+        headersSize: -1
+        bodySize: number
+    }
+    response: {
+        status: number
+        statusText: string
+        httpVersion: string
+        cookies: HarNameValue[]
+        headers: HarNameValue[]
+        content: HarContent
+        redirectURL: string
+        headersSize: -1
+        bodySize: number
+    }
+    cache: Record<string, never>
+    timings: {send: number, wait: number, receive: number}
+    _source: HarEntrySource
+    _policy: ServiceWorkerPolicy | null
+    _clientId: string
+}
+
+export type HarDocument = {
+    log: {
+        version: "1.2"
+        creator: {name: string, version: string}
+        entries: HarEntry[]
+    }
+}
+
+export type HarRecordingOptions = {
+    /** oldest entries are dropped once exceeded, defaults to 1,000 */
+    maxEntries?: number
+    /** bodies are not recorded if 0 (default) */
+    maxBodyBytes?: number
+}
+
+export type HarRequestRecord = {
+    request: Request
+    /**
+     * copy of request taken before it was handled,
+     * only needed if bodies are recorded
+     */
+    requestCopy: Request | null
+    response: Response
+    startedAt: number
+    milliseconds: number
+    source: HarEntrySource
+    policy: ServiceWorkerPolicy | null
+    clientId: string
+}
+
+export type HarRecorder = {
+    start: (options?: HarRecordingOptions) => void
+    /** recorded entries are kept until cleared or recording restarts */
+    stop: () => void
+    isRecording: () => boolean
+    recordsBodies: () => boolean
+    /** resolves once bodies (if any) are read */
+    record: (record: HarRequestRecord) => Promise<void>
+    export: () => HarDocument
+    clear: () => void
+}
+
+export const DEFAULT_HAR_MAX_ENTRIES = 1_000
+
+const TEXT_MIME_TYPE = /^(text\/|application\/(json|javascript|xml|x-www-form-urlencoded)|image\/svg\+xml)|\+json|\+xml/
+
+const toNameValues = (headers: Headers) => {
+    const pairs = [] as HarNameValue[]
+    headers.forEach((value, name) => pairs.push({name, value}))
+    return pairs
+}
+
+const queryString = (url: string) => {
+    const pairs = [] as HarNameValue[]
+    new URL(url).searchParams.forEach((value, name) => pairs.push({name, value}))
+    return pairs
+}
+
+const declaredLength = (headers: Headers) => {
+    const length = parseInt(headers.get("content-length") || "", 10)
+    return isNaN(length) || length < 0 ? -1 : length
+}
+
+/** reads at most maxBytes of body, cancelling the rest */
+const readBodyPrefix = async (body: ReadableStream<Uint8Array>, maxBytes: number) => {
+    const reader = body.getReader()
+    const chunks = [] as Uint8Array[]
+    let bytes = 0
+    let truncated = false
+    try {
+        while (bytes < maxBytes) {
+            const {done, value} = await reader.read()
+            if (done) {
+                break
+            }
+            chunks.push(value)
+            bytes += value.length
+        }
+        truncated = bytes > maxBytes || !(await reader.read()).done
+    } finally {
+        reader.cancel().catch(() => {})
+    }
+    const joined = new Uint8Array(Math.min(bytes, maxBytes))
+    let offset = 0
+    for (const chunk of chunks) {
+        const remaining = joined.length - offset
+        joined.set(chunk.subarray(0, remaining), offset)
+        offset += Math.min(chunk.length, remaining)
+    }
+    return {bytes: joined, truncated} as const
+}
+
+const encodeBody = (bytes: Uint8Array, mimeType: string) => {
+    if (TEXT_MIME_TYPE.test(mimeType)) {
+        return {text: new TextDecoder().decode(bytes)} as const
+    }
+    let binary = ""
+    for (const byte of bytes) {
+        binary += String.fromCharCode(byte)
+    }
+    return {text: btoa(binary), encoding: "base64"} as const
+}
+
+const readBody = async (body: ReadableStream<Uint8Array> | null, mimeType: string, maxBytes: number) => {
+    if (!body || maxBytes < 1) {
+        return null
+    }
+    try {
+        const {bytes, truncated} = await readBodyPrefix(body, maxBytes)
+        return {
+            ...encodeBody(bytes, mimeType),
+            ...(truncated ? {comment: `truncated to ${maxBytes} bytes`} : {})
+        }
+    } catch {
+        return null
+    }
+}
+
+export const createHarRecorder = (): HarRecorder => {
+    let recording = false
+    let maxEntries = DEFAULT_HAR_MAX_ENTRIES
+    let maxBodyBytes = 0
+    let entries = [] as HarEntry[]
+    return {
+        start: (options = {}) => {
+            recording = true
+            entries = []
+            maxEntries = Math.max(1, options.maxEntries ?? DEFAULT_HAR_MAX_ENTRIES)
+            maxBodyBytes = Math.max(0, options.maxBodyBytes ?? 0)
+        },
+        stop: () => { recording = false },
+        isRecording: () => recording,
+        recordsBodies: () => recording && maxBodyBytes > 0,
+        record: async (record) => {
+            if (!recording) {
+                return
+            }
+            const {request, requestCopy, response} = record
+            const requestMimeType = request.headers.get("content-type") || ""
+            const responseMimeType = response.headers.get("content-type") || ""
+            const responseBody = maxBodyBytes > 0 && response.body
+                ? response.clone().body
+                : null
+            const [requestText, responseText] = await Promise.all([
+                readBody(requestCopy?.body || null, requestMimeType, maxBodyBytes),
+                readBody(responseBody, responseMimeType, maxBodyBytes)
+            ] as const)
+            const entry: HarEntry = {
+                startedDateTime: new Date(record.startedAt).toISOString(),
+                time: record.milliseconds,
+                request: {
+                    method: request.method,
+                    url: request.url,
+                    httpVersion: "",
+                    cookies: [],
+                    headers: toNameValues(request.headers),
+                    queryString: queryString(request.url),
+                    ...(requestText ? {postData: {
+                        mimeType: requestMimeType,
+                        text: requestText.text,
+                        ...(requestText.comment ? {comment: requestText.comment} : {})
+                    }} : {}),
+                    headersSize: -1,
+                    bodySize: declaredLength(request.headers)
+                },
+                response: {
+                    status: response.status,
+                    statusText: response.statusText,
+                    httpVersion: "",
+                    cookies: [],
+                    headers: toNameValues(response.headers),
+                    content: {
+                        size: declaredLength(response.headers),
+                        mimeType: responseMimeType,
+                        ...(responseText || {})
+                    },
+                    redirectURL: response.headers.get("location") || "",
+                    headersSize: -1,
+                    bodySize: declaredLength(response.headers)
+                },
+                cache: {},
+                // time until response headers were ready, body
+                // transfer happens after worker hands off response
+                timings: {send: 0, wait: record.milliseconds, receive: 0},
+                _source: record.source,
+                _policy: record.policy,
+                _clientId: record.clientId
+            }
+            entries.push(entry)
+            if (entries.length > maxEntries) {
+                entries.splice(0, entries.length - maxEntries)
+            }
+        },
+        export: () => ({
+            log: {
+                version: "1.2",
+                creator: {name: packageName, version: packageVersion},
+                entries: [...entries]
+            }
+        }),
+        clear: () => { entries = [] }
+    }
+}
@@ -0,0 +1,160 @@
+import {expect, it, describe} from "vitest"
+import {
+    createLaunchTokenVerifier,
+    signLaunchToken,
+    LAUNCH_TOKEN_KEY_ALGORITHM,
+    MAX_LAUNCH_TOKEN_LIFETIME_MILLISECONDS,
+    LaunchClaims
+} from "./launchTokens"
+
+const createKeys = async () => {
+    const {publicKey, privateKey} = await crypto.subtle.generateKey(
+        LAUNCH_TOKEN_KEY_ALGORITHM, true, ["sign", "verify"]
+    )
+    return {
+        privateKey,
+        publicJwk: await crypto.subtle.exportKey("jwk", publicKey),
+        privateJwk: await crypto.subtle.exportKey("jwk", privateKey),
+    }
+}
+
+const launch: LaunchClaims = {
+    entry: "https://cookies.com/index.js",
+    csp: "default-src 'self';",
+    network: null,
+    integrity: null,
+    manifest: null,
+    manifestDigest: null
+}
+
+describe("launch token verification", () => {
+    it("tokens signed by registered key should verify", async () => {
+        const {privateKey, publicJwk} = await createKeys()
+        const verifier = createLaunchTokenVerifier()
+        expect(await verifier.addKey(publicJwk)).toBe(true)
+        const expires = Date.now() + 60_000
+        const token = await signLaunchToken({...launch, expires}, privateKey)
+        const payload = await verifier.verify(token, launch)
+        expect(payload).toStrictEqual({...launch, expires})
+    })
+
+    it("private keys and malformed keys should not be registered", async () => {
+        const {privateJwk} = await createKeys()
+        const verifier = createLaunchTokenVerifier()
+        expect(await verifier.addKey(privateJwk)).toBe(false)
+        expect(await verifier.addKey({kty: "EC"})).toBe(false)
+        expect(verifier.keyCount()).toBe(0)
+    })
+
+    it("registration should be locked to the first registered key", async () => {
+        const first = await createKeys()
+        const second = await createKeys()
+        const verifier = createLaunchTokenVerifier()
+        expect(await verifier.addKey(first.publicJwk)).toBe(true)
+        expect(await verifier.addKey(second.publicJwk)).toBe(false)
+        expect(await verifier.addKey(first.publicJwk)).toBe(true)
+        expect(verifier.keyCount()).toBe(1)
+        const token = await signLaunchToken({...launch, expires: Date.now() + 60_000}, second.privateKey)
+        await expect(verifier.verify(token, launch)).rejects.toThrow()
+    })
+
+    it("registered key should be restored from store", async () => {
+        const first = await createKeys()
+        const second = await createKeys()
+        let stored: JsonWebKey | null = null
+        const store = {
+            load: async () => stored,
+            save: async (key: JsonWebKey) => { stored = key },
+            clear: async () => { stored = null }
+        }
+        expect(await createLaunchTokenVerifier({store}).addKey(first.publicJwk)).toBe(true)
+        expect(stored).not.toBe(null)
+
+        const restarted = createLaunchTokenVerifier({store})
+        const token = await signLaunchToken({...launch, expires: Date.now() + 60_000}, first.privateKey)
+        expect(await restarted.verify(token, launch)).toBeTruthy()
+        expect(await restarted.addKey(second.publicJwk)).toBe(false)
+    })
+
+    it("key should be replaceable after reset", async () => {
+        const first = await createKeys()
+        const second = await createKeys()
+        let stored: JsonWebKey | null = null
+        const store = {
+            load: async () => stored,
+            save: async (key: JsonWebKey) => { stored = key },
+            clear: async () => { stored = null }
+        }
+        const verifier = createLaunchTokenVerifier({store})
+        expect(await verifier.addKey(first.publicJwk)).toBe(true)
+        await verifier.reset()
+        expect(verifier.keyCount()).toBe(0)
+        expect(stored).toBe(null)
+        expect(await verifier.addKey(second.publicJwk)).toBe(true)
+
+        const token = await signLaunchToken({...launch, expires: Date.now() + 60_000}, first.privateKey)
+        await expect(verifier.verify(token, launch)).rejects.toThrow()
+        const restarted = createLaunchTokenVerifier({store})
+        const rotated = await signLaunchToken({...launch, expires: Date.now() + 60_000}, second.privateKey)
+        expect(await restarted.verify(rotated, launch)).toBeTruthy()
+    })
+
+    it("should throw if no keys have been registered or token is missing", async () => {
+        const {privateKey, publicJwk} = await createKeys()
+        const verifier = createLaunchTokenVerifier()
+        const token = await signLaunchToken({...launch, expires: Date.now() + 60_000}, privateKey)
+        await expect(verifier.verify(token, launch)).rejects.toThrow()
+        await verifier.addKey(publicJwk)
+        await expect(verifier.verify("", launch)).rejects.toThrow()
+        await expect(verifier.verify("not-a-token", launch)).rejects.toThrow()
+    })
+
+    it("should throw if token is signed by unknown key or tampered with", async () => {
+        const trusted = await createKeys()
+        const untrusted = await createKeys()
+        const verifier = createLaunchTokenVerifier()
+        await verifier.addKey(trusted.publicJwk)
+        const expires = Date.now() + 60_000
+        const forged = await signLaunchToken({...launch, expires}, untrusted.privateKey)
+        await expect(verifier.verify(forged, launch)).rejects.toThrow()
+
+        const token = await signLaunchToken({...launch, expires}, trusted.privateKey)
+        const [, signature] = token.split(".")
+        const tamperedPayload = btoa(JSON.stringify({
+            ...launch,
+            entry: "https://evil.com/index.js",
+            expires
+        })).replace(/=+$/, "")
+        await expect(verifier.verify(`${tamperedPayload}.${signature}`, {
+            ...launch,
+            entry: "https://evil.com/index.js"
+        })).rejects.toThrow()
+    })
+
+    it("should throw if token is expired or lifetime is too long", async () => {
+        const {privateKey, publicJwk} = await createKeys()
+        const verifier = createLaunchTokenVerifier()
+        await verifier.addKey(publicJwk)
+        const now = Date.now()
+        const expired = await signLaunchToken({...launch, expires: now - 1}, privateKey)
+        await expect(verifier.verify(expired, launch, now)).rejects.toThrow(/expired/)
+        const longLived = await signLaunchToken({
+            ...launch,
+            expires: now + MAX_LAUNCH_TOKEN_LIFETIME_MILLISECONDS + 1_000
+        }, privateKey)
+        await expect(verifier.verify(longLived, launch, now)).rejects.toThrow()
+    })
+
+    it("should throw if token does not match launch parameters", async () => {
+        const {privateKey, publicJwk} = await createKeys()
+        const verifier = createLaunchTokenVerifier()
+        await verifier.addKey(publicJwk)
+        const token = await signLaunchToken({...launch, expires: Date.now() + 60_000}, privateKey)
+        await expect(verifier.verify(token, {...launch, entry: "https://evil.com/index.js"})).rejects.toThrow()
+        await expect(verifier.verify(token, {...launch, csp: "script-src 'self' 'unsafe-eval';"})).rejects.toThrow()
+        await expect(verifier.verify(token, {...launch, network: `{"allowNetwork":true}`})).rejects.toThrow()
+        await expect(verifier.verify(token, {...launch, integrity: "{}"})).rejects.toThrow()
+        await expect(verifier.verify(token, {...launch, manifest: "https://evil.com/x.huzma.json"})).rejects.toThrow()
+        await expect(verifier.verify(token, {...launch, manifestDigest: "sha256-abc"})).rejects.toThrow()
+    })
+})
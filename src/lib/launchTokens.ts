@@ -0,0 +1,239 @@
+/**
+ * What a launch token grants. Claims are the exact (url 
+ * decoded) query values the program is launched with, 
+ * "csp" being the value of either the "csp" or "cspConfig" 
+ * query. "entry" and "csp" are empty strings for 
+ * manifest launches.
+ */
+export type LaunchClaims = {
+    entry: string
+    csp: string
+    network: string | null
+    integrity: string | null
+    manifest: string | null
+    /** digest of manifest ("sha256-<base64>"), null if not a manifest launch */
+    manifestDigest: string | null
+}
+
+export type LaunchTokenPayload = LaunchClaims & {
+    /** milliseconds since unix epoch */
+    expires: number
+}
+
+export type LaunchTokenVerifier = {
+    /** 
+     * resolves to false if key is malformed, is not a P-256 public 
+     * key, or a different key has already been registered
+     */
+    addKey: (key: JsonWebKey) => Promise<boolean>
+    /** unregisters key (and removes it from store), so another can be registered */
+    reset: () => Promise<void>
+    keyCount: () => number
+    /** throws if token is malformed, expired, tampered or doesn't match launch */
+    verify: (token: string, launch: LaunchClaims, now?: number) => Promise<LaunchTokenPayload>
+}
+
+/** persists registered key, so it survives worker restarts */
+export type LaunchTokenKeyStore = {
+    load: () => Promise<JsonWebKey | null>
+    save: (key: JsonWebKey) => Promise<unknown>
+    clear: () => Promise<unknown>
+}
+
+export type LaunchTokenVerifierOptions = {
+    store?: LaunchTokenKeyStore
+}
+
+export const LAUNCH_TOKEN_KEY_ALGORITHM = {
+    name: "ECDSA",
+    namedCurve: "P-256"
+} as const
+
+const SIGNATURE_ALGORITHM = {name: "ECDSA", hash: "SHA-256"} as const
+
+export const MAX_LAUNCH_TOKEN_LIFETIME_MILLISECONDS = 10 * 60 * 1_000
+
+const encodeBase64Url = (bytes: Uint8Array) => {
+    let binary = ""
+    for (const byte of bytes) {
+        binary += String.fromCharCode(byte)
+    }
+    return btoa(binary)
+        .replace(/\+/g, "-")
+        .replace(/\//g, "_")
+        .replace(/=+$/, "")
+}
+
+const decodeBase64Url = (text: string) => {
+    const base64 = text.replace(/-/g, "+").replace(/_/g, "/")
+    const padded = base64 + "=".repeat((4 - base64.length % 4) % 4)
+    return Uint8Array.from(atob(padded), (char) => char.charCodeAt(0))
+}
+
+/**
+ * Tokens are in the form "<base64url payload>.<base64url signature>",
+ * where signature is over the encoded payload. Used by the
+ * app shell, with a non-extractable private key.
+ */
+export const signLaunchToken = async (
+    payload: LaunchTokenPayload,
+    privateKey: CryptoKey
+) => {
+    const encoder = new TextEncoder()
+    const encodedPayload = encodeBase64Url(encoder.encode(JSON.stringify(payload)))
+    const signature = await crypto.subtle.sign(
+        SIGNATURE_ALGORITHM,
+        privateKey,
+        encoder.encode(encodedPayload)
+    )
+    return `${encodedPayload}.${encodeBase64Url(new Uint8Array(signature))}`
+}
+
+const parsePayload = (encodedPayload: string) => {
+    const json = new TextDecoder().decode(decodeBase64Url(encodedPayload))
+    const payload = JSON.parse(json) as Partial<LaunchTokenPayload> | null
+    if (
+        typeof payload !== "object"
+        || payload === null
+        || typeof payload.entry !== "string"
+        || typeof payload.csp !== "string"
+        || (payload.network !== null && typeof payload.network !== "string")
+        || (payload.integrity !== null && typeof payload.integrity !== "string")
+        || (payload.manifest !== null && typeof payload.manifest !== "string")
+        || (payload.manifestDigest !== null && typeof payload.manifestDigest !== "string")
+        || typeof payload.expires !== "number"
+    ) {
+        throw new Error("launch token payload is malformed")
+    }
+    return payload as LaunchTokenPayload
+}
+
+const isSameKey = (a: JsonWebKey, b: JsonWebKey) => (
+    a.kty === b.kty && a.crv === b.crv && a.x === b.x && a.y === b.y
+)
+
+const importPublicKey = async (jwk: JsonWebKey) => {
+    try {
+        const key = await crypto.subtle.importKey(
+            "jwk", jwk, LAUNCH_TOKEN_KEY_ALGORITHM, false, ["verify"]
+        )
+        return key.type === "public" ? key : null
+    } catch {
+        return null
+    }
+}
+
+/**
+ * Registration is locked once a key is registered, so that
+ * nothing other than the app shell that registered first 
+ * can mint tokens. Re-registering the same key succeeds.
+ * The lock outlives worker restarts if a store is given,
+ * app shells that lose or rotate their key reset it first.
+ */
+export const createLaunchTokenVerifier = (
+    options: LaunchTokenVerifierOptions = {}
+): LaunchTokenVerifier => {
+    const {store} = options
+    let registered: {jwk: JsonWebKey, key: CryptoKey} | null = null
+    const isRegistered = () => registered !== null
+    const isRegisteredKey = (jwk: JsonWebKey) => (
+        registered !== null && isSameKey(registered.jwk, jwk)
+    )
+
+    let restoring: Promise<void> | null = null
+    const restore = () => {
+        if (!store || restoring) {
+            return restoring || Promise.resolve()
+        }
+        restoring = (async () => {
+            const jwk = await store.load().catch(() => null)
+            const key = jwk ? await importPublicKey(jwk) : null
+            if (jwk && key && !isRegistered()) {
+                const {kty, crv, x, y} = jwk
+                registered = {jwk: {kty, crv, x, y}, key}
+            }
+        })()
+        return restoring
+    }
+
+    return {
+        addKey: async (jwk) => {
+            if (typeof jwk !== "object" || jwk === null) {
+                return false
+            }
+            await restore()
+            if (isRegistered()) {
+                return isRegisteredKey(jwk)
+            }
+            const key = await importPublicKey(jwk)
+            if (!key) {
+                return false
+            }
+            // another registration may have completed during import
+            if (isRegistered()) {
+                return isRegisteredKey(jwk)
+            }
+            const {kty, crv, x, y} = jwk
+            registered = {jwk: {kty, crv, x, y}, key}
+            await store?.save(registered.jwk).catch((error) => {
+                console.warn("launch token key could not be persisted", error)
+            })
+            return true
+        },
+        reset: async () => {
+            await restore()
+            registered = null
+            await store?.clear()
+        },
+        keyCount: () => registered ? 1 : 0,
+        verify: async (token, launch, now = Date.now()) => {
+            await restore()
+            if (!registered) {
+                throw new Error("no launch token keys have been registered")
+            }
+            const {key} = registered
+            if (token.length < 1) {
+                throw new Error("launch token is missing")
+            }
+            const segments = token.split(".")
+            if (segments.length !== 2) {
+                throw new Error("launch token is malformed")
+            }
+            const [encodedPayload, encodedSignature] = segments
+            let payload: LaunchTokenPayload
+            let signature: Uint8Array
+            try {
+                payload = parsePayload(encodedPayload)
+                signature = decodeBase64Url(encodedSignature)
+            } catch {
+                throw new Error("launch token is malformed")
+            }
+            const signed = await crypto.subtle.verify(
+                SIGNATURE_ALGORITHM, 
+                key, 
+                signature, 
+                new TextEncoder().encode(encodedPayload)
+            )
+            if (!signed) {
+                throw new Error("launch token signature is invalid")
+            }
+            if (payload.expires <= now) {
+                throw new Error("launch token has expired")
+            }
+            if (payload.expires - now > MAX_LAUNCH_TOKEN_LIFETIME_MILLISECONDS) {
+                throw new Error("launch token lifetime exceeds maximum")
+            }
+            if (
+                payload.entry !== launch.entry
+                || payload.csp !== launch.csp
+                || payload.network !== launch.network
+                || payload.integrity !== launch.integrity
+                || payload.manifest !== launch.manifest
+                || payload.manifestDigest !== launch.manifestDigest
+            ) {
+                throw new Error("launch token does not match launch parameters")
+            }
+            return payload
+        }
+    }
+}
@@ -0,0 +1,123 @@
+import {expect, it, describe} from "vitest"
+import {
+    parseNetworkPermissions, 
+    checkNetworkPermission, 
+    guardNetworkFetch,
+    guardRequestQueue,
+    isNetworkPermissionError,
+    deniedResponse,
+    NetworkPermissionError
+} from "./networkPermissions"
+import {createRequestQueue} from "./requestQueue"
+import {NETWORK_PERMISSION_DENIED, NetworkDenial} from "./serviceWorkerMeta"
+
+const request = (url: string, method = "GET") => new Request(url, {method})
+
+describe("network permission parsing", () => {
+    it("should parse valid manifest and normalize methods", () => {
+        const permissions = parseNetworkPermissions(JSON.stringify({
+            allowNetwork: true,
+            allowedOrigins: ["https://cdn.com"],
+            allowedMethods: ["get", "post"]
+        }))
+        expect(permissions.allowNetwork).toBe(true)
+        expect(permissions.allowedOrigins).toStrictEqual(["https://cdn.com"])
+        expect(permissions.allowedMethods).toStrictEqual(["GET", "POST"])
+    })
+
+    it("should throw if manifest is malformed", () => {
+        expect(() => parseNetworkPermissions("{")).toThrow()
+        expect(() => parseNetworkPermissions("null")).toThrow()
+        expect(() => parseNetworkPermissions(JSON.stringify({allowedOrigins: []}))).toThrow()
+        expect(() => parseNetworkPermissions(JSON.stringify({
+            allowNetwork: true, 
+            allowedOrigins: "https://cdn.com"
+        }))).toThrow()
+        expect(() => parseNetworkPermissions(JSON.stringify({
+            allowNetwork: true, 
+            allowedOrigins: [],
+            allowedMethods: [1]
+        }))).toThrow()
+    })
+})
+
+describe("network permission checks", () => {
+    it("should deny all requests if network is not allowed", () => {
+        const permissions = {allowNetwork: false, allowedOrigins: ["*"]}
+        expect(checkNetworkPermission(permissions, request("https://cdn.com/a.js")).allowed).toBe(false)
+    })
+
+    it("should only allow listed origins", () => {
+        const permissions = {
+            allowNetwork: true, 
+            allowedOrigins: ["https://cdn.com", "https://*.assets.com"]
+        }
+        expect(checkNetworkPermission(permissions, request("https://cdn.com/a.js")).allowed).toBe(true)
+        expect(checkNetworkPermission(permissions, request("https://img.assets.com/a.png")).allowed).toBe(true)
+        expect(checkNetworkPermission(permissions, request("https://assets.com/a.png")).allowed).toBe(false)
+        expect(checkNetworkPermission(permissions, request("http://img.assets.com/a.png")).allowed).toBe(false)
+        expect(checkNetworkPermission(permissions, request("https://evil.com/a.js")).allowed).toBe(false)
+        expect(checkNetworkPermission(permissions, request("https://cdn.com.evil.com/a.js")).allowed).toBe(false)
+    })
+
+    it("should only allow listed methods if specified", () => {
+        const permissions = {
+            allowNetwork: true, 
+            allowedOrigins: ["*"],
+            allowedMethods: ["GET"]
+        }
+        expect(checkNetworkPermission(permissions, request("https://cdn.com/a.js")).allowed).toBe(true)
+        expect(checkNetworkPermission(permissions, request("https://cdn.com/a.js", "POST")).allowed).toBe(false)
+    })
+
+    it("guarded fetch should reject with denial without reaching network", async () => {
+        let networkCalls = 0
+        const guarded = guardNetworkFetch(
+            async () => {
+                networkCalls++
+                return new Response("", {status: 200})
+            },
+            {allowNetwork: true, allowedOrigins: ["https://cdn.com"]}
+        )
+        const allowed = await guarded(request("https://cdn.com/a.js"))
+        expect(allowed.status).toBe(200)
+        const error = await guarded(request("https://evil.com/a.js")).catch((error) => error)
+        expect(isNetworkPermissionError(error)).toBe(true)
+        expect(isNetworkPermissionError(new Error("offline"))).toBe(false)
+        expect(networkCalls).toBe(1)
+        const {denial} = error as NetworkPermissionError
+        expect(denial).toStrictEqual({
+            url: "https://evil.com/a.js", 
+            method: "GET", 
+            reason: "origin https://evil.com is not allowed"
+        })
+        const denied = deniedResponse(denial)
+        expect(denied.status).toBe(403)
+        expect(denied.headers.get("Sw-Error-Code")).toBe(NETWORK_PERMISSION_DENIED)
+    })
+
+    it("guarded queue should not enqueue denied requests", async () => {
+        const denials = [] as NetworkDenial[]
+        let queued = 0
+        const queue = createRequestQueue({
+            store: {
+                add: async () => ++queued,
+                all: async () => [],
+                count: async () => 0,
+                remove: async () => {}
+            },
+            networkFetch: async () => new Response("", {status: 200})
+        })
+        const guarded = guardRequestQueue(
+            queue,
+            {allowNetwork: true, allowedOrigins: ["https://cdn.com"]},
+            (denial) => denials.push(denial)
+        )
+        const allowed = await guarded.enqueue(request("https://cdn.com/a", "POST"), "client")
+        expect(allowed.status).toBe(202)
+        const denied = await guarded.enqueue(request("https://evil.com/a", "POST"), "client")
+        expect(denied.status).toBe(403)
+        expect(queued).toBe(1)
+        expect(denials.length).toBe(1)
+    })
+})
@@ -0,0 +1,156 @@
+import {
+    errorResponse,
+    NETWORK_PERMISSION_DENIED,
+    NetworkDenial,
+    ServiceWorkerPolicy
+} from "./serviceWorkerMeta"
+import type {RequestQueue} from "./requestQueue"
+
+export type NetworkPermissions = {
+    allowNetwork: boolean
+    /**
+     * Exact origins ("https://cdn.com"), subdomain 
+     * wildcards ("https://*.cdn.com") or "*" to allow 
+     * all origins.
+     */
+    allowedOrigins: string[]
+    /** all methods are allowed if not specified */
+    allowedMethods?: string[]
+}
+
+export type NetworkPermissionCheck = (
+    {allowed: true, reason: ""}
+    | {allowed: false, reason: string}
+)
+
+const isStringArray = (value: unknown): value is string[] => {
+    return Array.isArray(value) && value.every((item) => typeof item === "string")
+}
+
+/**
+ * Parses a JSON encoded permission manifest,
+ * throws if manifest is malformed.
+ */
+export const parseNetworkPermissions = (json: string): NetworkPermissions => {
+    const manifest = JSON.parse(json) as Partial<NetworkPermissions> | null
+    if (typeof manifest !== "object" || manifest === null) {
+        throw new Error("network permissions must be an object")
+    }
+    const {allowNetwork, allowedOrigins = [], allowedMethods} = manifest
+    if (typeof allowNetwork !== "boolean") {
+        throw new Error("network permissions must specify 'allowNetwork' as a boolean")
+    }
+    if (!isStringArray(allowedOrigins)) {
+        throw new Error("network permission 'allowedOrigins' must be an array of strings")
+    }
+    if (allowedMethods !== undefined && !isStringArray(allowedMethods)) {
+        throw new Error("network permission 'allowedMethods' must be an array of strings")
+    }
+    return {
+        allowNetwork,
+        allowedOrigins,
+        allowedMethods: allowedMethods?.map((method) => method.toUpperCase())
+    }
+}
+
+const originMatches = (pattern: string, url: URL) => {
+    if (pattern === "*") {
+        return true
+    }
+    const wildcard = pattern.indexOf("://*.")
+    if (wildcard < 0) {
+        return pattern === url.origin
+    }
+    const protocol = pattern.slice(0, wildcard + 1)
+    const domain = pattern.slice(wildcard + "://*.".length)
+    return url.protocol === protocol && url.host.endsWith(`.${domain}`)
+}
+
+export const checkNetworkPermission = (
+    permissions: NetworkPermissions, 
+    request: Request
+): NetworkPermissionCheck => {
+    if (!permissions.allowNetwork) {
+        return {allowed: false, reason: "program is not allowed to access network"}
+    }
+    const {allowedMethods} = permissions
+    if (allowedMethods && !allowedMethods.includes(request.method.toUpperCase())) {
+        return {allowed: false, reason: `method ${request.method} is not allowed`}
+    }
+    const url = new URL(request.url)
+    if (!permissions.allowedOrigins.some((pattern) => originMatches(pattern, url))) {
+        return {allowed: false, reason: `origin ${url.origin} is not allowed`}
+    }
+    return {allowed: true, reason: ""}
+}
+
+export type NetworkPermissionError = Error & {denial: NetworkDenial}
+
+const networkPermissionError = (denial: NetworkDenial): NetworkPermissionError => {
+    const error = new Error(denial.reason)
+    error.name = "NetworkPermissionError"
+    return Object.assign(error, {denial})
+}
+
+export const isNetworkPermissionError = (error: unknown): error is NetworkPermissionError => {
+    return error instanceof Error && error.name === "NetworkPermissionError"
+}
+
+export const deniedResponse = (
+    denial: NetworkDenial, 
+    policy: ServiceWorkerPolicy | null = null
+) => {
+    return errorResponse(denial.reason, {
+        code: NETWORK_PERMISSION_DENIED,
+        stage: "network",
+        policy,
+        url: denial.url
+    })
+}
+
+const denialOf = (request: Request, check: NetworkPermissionCheck): NetworkDenial => {
+    const {url, method} = request
+    return {url, method, reason: check.reason}
+}
+
+/**
+ * Denied requests never reach the network and reject
+ * with a NetworkPermissionError, like failed requests, 
+ * so that callers can fall back to cached copies.
+ */
+export const guardNetworkFetch = (
+    networkFetch: typeof fetch,
+    permissions: NetworkPermissions
+): typeof fetch => {
+    return async (input, init) => {
+        const request = input instanceof Request 
+            ? input 
+            : new Request(input, init)
+        const check = checkNetworkPermission(permissions, request)
+        if (check.allowed) {
+            return networkFetch(input, init)
+        }
+        throw networkPermissionError(denialOf(request, check))
+    }
+}
+
+/**
+ * Denied requests are never queued for replay and 
+ * recieve a 403 response instead.
+ */
+export const guardRequestQueue = (
+    queue: RequestQueue,
+    permissions: NetworkPermissions,
+    onDenied: (denial: NetworkDenial) => unknown
+): RequestQueue => ({
+    ...queue,
+    enqueue: async (request, clientId) => {
+        const check = checkNetworkPermission(permissions, request)
+        if (check.allowed) {
+            return queue.enqueue(request, clientId)
+        }
+        const denial = denialOf(request, check)
+        onDenied(denial)
+        return deniedResponse(denial)
+    }
+})
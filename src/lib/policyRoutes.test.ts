@@ -0,0 +1,85 @@
+import {expect, it, describe} from "vitest"
+import {compilePolicyRoutes, matchPolicyRoute, globToRegex} from "./policyRoutes"
+import {
+    NETWORK_ONLY_POLICY,
+    CACHE_ONLY_POLICY,
+    NETWORK_FIRST_POLICY,
+    ServiceWorkerPolicy
+} from "./serviceWorkerMeta"
+
+describe("glob patterns", () => {
+    it("single star should not match across path segments", () => {
+        const regex = globToRegex("https://cookies.com/*.js")
+        expect(regex.test("https://cookies.com/index.js")).toBe(true)
+        expect(regex.test("https://cookies.com/assets/index.js")).toBe(false)
+    })
+
+    it("double star should match across path segments", () => {
+        const regex = globToRegex("https://cookies.com/**.js")
+        expect(regex.test("https://cookies.com/index.js")).toBe(true)
+        expect(regex.test("https://cookies.com/assets/index.js")).toBe(true)
+        expect(regex.test("https://cookies.com/assets/index.css")).toBe(false)
+    })
+
+    it("question mark should match exactly one character", () => {
+        const regex = globToRegex("https://cookies.com/v?/index.js")
+        expect(regex.test("https://cookies.com/v1/index.js")).toBe(true)
+        expect(regex.test("https://cookies.com/v12/index.js")).toBe(false)
+    })
+
+    it("regex characters in glob should be matched literally", () => {
+        const regex = globToRegex("https://cookies.com/index.js")
+        expect(regex.test("https://cookies.com/index.js")).toBe(true)
+        expect(regex.test("https://cookies.com/indexajs")).toBe(false)
+    })
+})
+
+describe("policy route matching", () => {
+    it("should return null if no routes match", () => {
+        const routes = compilePolicyRoutes([
+            {type: "glob", pattern: "https://cookies.com/*", policy: NETWORK_ONLY_POLICY}
+        ])
+        expect(matchPolicyRoute(routes, "https://donuts.com/index.js")).toBe(null)
+        expect(matchPolicyRoute([], "https://donuts.com/index.js")).toBe(null)
+    })
+
+    it("should return policy of first matching route", () => {
+        const routes = compilePolicyRoutes([
+            {type: "glob", pattern: "https://cookies.com/assets/**", policy: CACHE_ONLY_POLICY},
+            {type: "glob", pattern: "https://cookies.com/**", policy: NETWORK_ONLY_POLICY},
+        ])
+        expect(matchPolicyRoute(routes, "https://cookies.com/assets/img.png")).toBe(CACHE_ONLY_POLICY)
+        expect(matchPolicyRoute(routes, "https://cookies.com/index.js")).toBe(NETWORK_ONLY_POLICY)
+    })
+
+    it("glob routes should ignore query and hash of url", () => {
+        const routes = compilePolicyRoutes([
+            {type: "glob", pattern: "https://cookies.com/*.js", policy: CACHE_ONLY_POLICY},
+        ])
+        expect(matchPolicyRoute(routes, "https://cookies.com/index.js?v=2")).toBe(CACHE_ONLY_POLICY)
+        expect(matchPolicyRoute(routes, "https://cookies.com/index.js#main")).toBe(CACHE_ONLY_POLICY)
+    })
+
+    it("regex routes should be tested against full url", () => {
+        const routes = compilePolicyRoutes([
+            {type: "regex", pattern: "\\?fresh=true$", policy: NETWORK_FIRST_POLICY},
+        ])
+        expect(matchPolicyRoute(routes, "https://cookies.com/index.js?fresh=true")).toBe(NETWORK_FIRST_POLICY)
+        expect(matchPolicyRoute(routes, "https://cookies.com/index.js")).toBe(null)
+    })
+
+    it("should throw if route has invalid policy, type or pattern", () => {
+        expect(() => compilePolicyRoutes([
+            {type: "glob", pattern: "https://cookies.com/*", policy: 100 as ServiceWorkerPolicy}
+        ])).toThrow()
+        expect(() => compilePolicyRoutes([
+            {type: "wildcard" as "glob", pattern: "https://cookies.com/*", policy: CACHE_ONLY_POLICY}
+        ])).toThrow()
+        expect(() => compilePolicyRoutes([
+            {type: "glob", pattern: "", policy: CACHE_ONLY_POLICY}
+        ])).toThrow()
+        expect(() => compilePolicyRoutes([
+            {type: "regex", pattern: "(", policy: CACHE_ONLY_POLICY}
+        ])).toThrow()
+    })
+})
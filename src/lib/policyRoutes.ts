@@ -0,0 +1,87 @@
+import {ServiceWorkerPolicy, isServiceWorkerPolicy} from "./serviceWorkerMeta"
+
+export type PolicyRoute = {
+    /**
+     * Glob patterns are matched against the
+     * origin & pathname of a url (query and hash are ignored).
+     * "*" matches anything except a "/", "**" matches
+     * anything and "?" matches a single character.
+     * 
+     * Regex patterns are tested against the full url.
+     */
+    pattern: string
+    type: "glob" | "regex"
+    policy: ServiceWorkerPolicy
+}
+
+export type CompiledPolicyRoute = {
+    type: PolicyRoute["type"]
+    matcher: RegExp
+    policy: ServiceWorkerPolicy
+}
+
+const escapeRegexChar = (char: string) => char.replace(/[.+^${}()|[\]\\]/g, "\\$&")
+
+export const globToRegex = (glob: string) => {
+    let source = ""
+    for (let i = 0; i < glob.length; i++) {
+        const char = glob[i]
+        if (char === "*" && glob[i + 1] === "*") {
+            source += ".*"
+            i++
+        } else if (char === "*") {
+            source += "[^/]*"
+        } else if (char === "?") {
+            source += "[^/]"
+        } else {
+            source += escapeRegexChar(char)
+        }
+    }
+    return new RegExp(`^${source}$`)
+}
+
+export const compilePolicyRoutes = (routes: ReadonlyArray<PolicyRoute>) => {
+    const compiled: CompiledPolicyRoute[] = []
+    for (let i = 0; i < routes.length; i++) {
+        const {pattern, type, policy} = routes[i]
+        if (typeof pattern !== "string" || pattern.length < 1) {
+            throw new Error(`policy route ${i} must have a non-empty pattern`)
+        }
+        if (!isServiceWorkerPolicy(policy)) {
+            throw new Error(`policy route ${i} ("${pattern}") has an invalid policy ${policy}`)
+        }
+        switch (type) {
+            case "glob":
+                compiled.push({type, policy, matcher: globToRegex(pattern)})
+                break
+            case "regex":
+                compiled.push({type, policy, matcher: new RegExp(pattern)})
+                break
+            default:
+                throw new Error(`policy route ${i} ("${pattern}") has an unknown type "${type}"`)
+        }
+    }
+    return compiled
+}
+
+/**
+ * Returns the policy of the first route that matches
+ * url, or null if no routes match.
+ */
+export const matchPolicyRoute = (
+    routes: ReadonlyArray<CompiledPolicyRoute>, 
+    url: string
+) => {
+    if (routes.length < 1) {
+        return null
+    }
+    const urlWithoutQuery = url.split(/[?#]/)[0]
+    for (let i = 0; i < routes.length; i++) {
+        const {type, matcher, policy} = routes[i]
+        const target = type === "glob" ? urlWithoutQuery : url
+        if (matcher.test(target)) {
+            return policy
+        }
+    }
+    return null
+}
@@ -0,0 +1,128 @@
+import {expect, it, describe} from "vitest"
+import {
+    parseProgramManifest,
+    fetchProgramManifest,
+    programSecurityPolicy,
+    programNetworkPermissions,
+    findMissingProgramFiles,
+    programManifestDigest
+} from "./programManifest"
+import {buildContentSecurityPolicy} from "./contentSecurityPolicy"
+
+const manifestUrl = "https://cookies.com/pkg/default.huzma.json"
+
+const manifest = (permissions: unknown[] = []) => ({
+    schema: 2,
+    name: "cookie-game",
+    version: "0.1.0",
+    entry: "index.js",
+    files: [
+        {name: "index.js", bytes: 10, invalidation: "default"},
+        {name: "assets/cookie.png", bytes: 20, invalidation: "default"},
+    ],
+    permissions,
+    metadata: {author: "cookie monster"}
+})
+
+describe("program manifest parsing", () => {
+    it("entry and files should be resolved against manifest url", () => {
+        const program = parseProgramManifest(manifest(), manifestUrl)
+        expect(program.entry).toBe("https://cookies.com/pkg/index.js")
+        expect(program.files).toStrictEqual([
+            {url: "https://cookies.com/pkg/index.js", bytes: 10},
+            {url: "https://cookies.com/pkg/assets/cookie.png", bytes: 20},
+        ])
+        expect(program.name).toBe("cookie-game")
+        expect(program.metadata).toStrictEqual({author: "cookie monster"})
+    })
+
+    it("should throw if manifest is invalid or has no entry", () => {
+        expect(() => parseProgramManifest({name: 1}, manifestUrl)).toThrow()
+        expect(() => parseProgramManifest({...manifest(), entry: ""}, manifestUrl)).toThrow()
+        expect(() => parseProgramManifest({
+            ...manifest(),
+            entry: "javascript:alert(1)"
+        }, manifestUrl)).toThrow()
+    })
+
+    it("manifest should be fetched along with its digest", async () => {
+        const text = JSON.stringify(manifest())
+        const {program, digest} = await fetchProgramManifest(
+            async () => new Response(text, {status: 200}),
+            manifestUrl
+        )
+        expect(program.manifestUrl).toBe(manifestUrl)
+        expect(digest).toBe(await programManifestDigest(new TextEncoder().encode(text).buffer))
+        expect(digest.startsWith("sha256-")).toBe(true)
+        await expect(fetchProgramManifest(
+            async () => new Response("", {status: 404}),
+            manifestUrl
+        )).rejects.toThrow()
+        await expect(fetchProgramManifest(
+            async () => new Response(JSON.stringify(manifest()), {status: 200}),
+            "data:application/json,{}"
+        )).rejects.toThrow()
+    })
+
+    it("should reject if manifest is not fetched within timeout", async () => {
+        await expect(fetchProgramManifest(
+            () => new Promise<Response>(() => {}),
+            manifestUrl,
+            5
+        )).rejects.toThrow(/within 5ms/)
+    })
+})
+
+describe("program manifest permissions", () => {
+    it("programs without permissions should only load from sandbox and manifest origin", () => {
+        const program = parseProgramManifest(manifest(), manifestUrl)
+        const config = programSecurityPolicy(program)
+        expect(config.directives["script-src"]).toStrictEqual(["'self'", "https://cookies.com"])
+        expect(config.allowUnsafeEval).toBe(false)
+        expect(() => buildContentSecurityPolicy(config)).not.toThrow()
+        expect(programNetworkPermissions(program)).toStrictEqual({
+            allowNetwork: true,
+            allowedOrigins: ["https://cookies.com"]
+        })
+    })
+
+    it("csp allowances and network origins should be derived from permissions", () => {
+        const program = parseProgramManifest(manifest([
+            "allowUnsafeEval",
+            "allowBlobs",
+            {key: "webRequest", value: ["https://api.com"]}
+        ]), manifestUrl)
+        const config = programSecurityPolicy(program)
+        expect(config.directives["script-src"]).toStrictEqual([
+            "'self'", "https://cookies.com", "'unsafe-eval'", "blob:"
+        ])
+        expect(config.directives["connect-src"]).toContain("https://api.com")
+        expect(() => buildContentSecurityPolicy(config)).not.toThrow()
+        expect(programNetworkPermissions(program).allowedOrigins).toStrictEqual([
+            "https://cookies.com", "https://api.com"
+        ])
+    })
+
+    it("allowAll permission should grant everything", () => {
+        const program = parseProgramManifest(manifest(["allowAll"]), manifestUrl)
+        const config = programSecurityPolicy(program)
+        expect(config.allowUnsafeEval).toBe(true)
+        expect(config.allowUnsafeInline).toBe(true)
+        expect(config.directives["connect-src"]).toStrictEqual(["*"])
+        expect(programNetworkPermissions(program).allowedOrigins).toContain("*")
+    })
+})
+
+describe("program file validation", () => {
+    it("should return files that are missing from client cache", async () => {
+        const program = parseProgramManifest(manifest(), manifestUrl)
+        const missing = await findMissingProgramFiles(program, async (url) => {
+            return !url.endsWith("cookie.png")
+        })
+        expect(missing).toStrictEqual(["https://cookies.com/pkg/assets/cookie.png"])
+        const unchecked = await findMissingProgramFiles(program, async () => {
+            throw new Error("app shell is unreachable")
+        })
+        expect(unchecked.length).toBe(program.files.length)
+    })
+})
@@ -0,0 +1,200 @@
+import {validateManifest, HuzmaManifest} from "huzma"
+import type {CspConfig} from "./contentSecurityPolicy"
+import type {NetworkPermissions} from "./networkPermissions"
+import {base64Digest} from "./subresourceIntegrity"
+
+/**
+ * Parsed huzma manifest, with file names resolved
+ * against the url the manifest was served from.
+ */
+export type ProgramManifest = {
+    manifestUrl: string
+    name: string
+    version: string
+    entry: string
+    files: Array<{url: string, bytes: number}>
+    permissions: HuzmaManifest["permissions"]
+    metadata: Record<string, string>
+}
+
+/** manifest, along with digest of the bytes it was parsed from */
+export type FetchedProgramManifest = {
+    program: ProgramManifest
+    digest: string
+}
+
+const ALLOW_ALL_PERMISSIONS = "allowAll"
+
+export const DEFAULT_MANIFEST_TIMEOUT_MILLISECONDS = 5_000
+
+const resolveFileUrl = (name: string, manifestUrl: string) => {
+    const url = new URL(name, manifestUrl)
+    if (url.protocol !== "https:" && url.protocol !== "http:") {
+        throw new Error(`manifest file "${name}" must resolve to an http(s) url`)
+    }
+    return url.href
+}
+
+/** throws if manifest is not a valid huzma manifest or has no entry */
+export const parseProgramManifest = (
+    manifest: unknown,
+    manifestUrl: string
+): ProgramManifest => {
+    const {pkg, errors} = validateManifest(manifest)
+    if (errors.length > 0) {
+        throw new Error(`invalid huzma manifest: ${errors.join(", ")}`)
+    }
+    if (pkg.entry.length < 1) {
+        throw new Error("huzma manifest does not specify an entry")
+    }
+    return {
+        manifestUrl,
+        name: pkg.name,
+        version: pkg.version,
+        entry: resolveFileUrl(pkg.entry, manifestUrl),
+        files: pkg.files.map(({name, bytes}) => ({
+            url: resolveFileUrl(name, manifestUrl),
+            bytes
+        })),
+        permissions: pkg.permissions,
+        metadata: pkg.metadata
+    }
+}
+
+/** 
+ * Digest of manifest in the subresource integrity format 
+ * ("sha256-<base64 digest>"). Launch tokens of manifest 
+ * launches sign it, so that manifest cannot be changed 
+ * once a token is issued.
+ */
+export const programManifestDigest = async (body: ArrayBuffer) => {
+    return `sha256-${await base64Digest("sha256", body)}`
+}
+
+/** rejects if manifest is not fetched and parsed within timeout */
+export const fetchProgramManifest = async (
+    fetchManifest: (url: string) => Promise<Response>,
+    manifestUrl: string,
+    timeoutMilliseconds = DEFAULT_MANIFEST_TIMEOUT_MILLISECONDS
+): Promise<FetchedProgramManifest> => {
+    const url = new URL(manifestUrl)
+    if (url.protocol !== "https:" && url.protocol !== "http:") {
+        throw new Error(`expected an http(s) manifest url, got "${url.protocol}"`)
+    }
+    const load = async () => {
+        const response = await fetchManifest(url.href)
+        if (!response.ok) {
+            throw new Error(`manifest request failed with status ${response.status}`)
+        }
+        const body = await response.arrayBuffer()
+        const manifest = JSON.parse(new TextDecoder().decode(body)) as unknown
+        return {
+            program: parseProgramManifest(manifest, url.href),
+            digest: await programManifestDigest(body)
+        }
+    }
+    let timeoutId: ReturnType<typeof setTimeout> | null = null
+    const timeout = new Promise<never>((_, reject) => {
+        timeoutId = setTimeout(() => {
+            reject(new Error(`manifest was not fetched within ${timeoutMilliseconds}ms`))
+        }, timeoutMilliseconds)
+    })
+    try {
+        return await Promise.race([load(), timeout])
+    } finally {
+        if (timeoutId !== null) {
+            clearTimeout(timeoutId)
+        }
+    }
+}
+
+const permissionValues = (program: ProgramManifest, key: string) => {
+    const permission = program.permissions.find((permission) => permission.key === key)
+    return permission ? permission.value : null
+}
+
+const hasPermission = (program: ProgramManifest, key: string) => {
+    return (
+        permissionValues(program, key) !== null
+        || permissionValues(program, ALLOW_ALL_PERMISSIONS) !== null
+    )
+}
+
+/**
+ * Origins listed in the "webRequest" permission,
+ * or "*" if any origin is allowed
+ */
+const webRequestOrigins = (program: ProgramManifest) => {
+    if (permissionValues(program, ALLOW_ALL_PERMISSIONS) !== null) {
+        return ["*"]
+    }
+    const origins = permissionValues(program, "webRequest") || []
+    if (origins.includes(ALLOW_ALL_PERMISSIONS)) {
+        return ["*"]
+    }
+    return origins
+}
+
+/**
+ * Programs can load anything from the origin they are
+ * served from, anything else must be granted via the
+ * manifest's permissions.
+ */
+export const programSecurityPolicy = (program: ProgramManifest): CspConfig => {
+    const allowUnsafeEval = hasPermission(program, "allowUnsafeEval")
+    const allowUnsafeInline = hasPermission(program, "allowInlineContent")
+    const allowDataUrls = hasPermission(program, "allowDataUrls")
+    const allowBlobs = hasPermission(program, "allowBlobs")
+    const sources = ["'self'", new URL(program.manifestUrl).origin]
+    const embedded = [
+        ...(allowDataUrls ? ["data:"] : []),
+        ...(allowBlobs ? ["blob:"] : []),
+    ]
+    const inline = allowUnsafeInline ? ["'unsafe-inline'"] : []
+    const webRequests = webRequestOrigins(program)
+    return {
+        directives: {
+            "default-src": [...sources, ...embedded],
+            "script-src": [
+                ...sources,
+                ...(allowUnsafeEval ? ["'unsafe-eval'"] : []),
+                ...inline,
+                ...embedded
+            ],
+            "style-src": [...sources, ...inline, ...embedded],
+            "connect-src": webRequests.includes("*")
+                ? ["*"]
+                : [...sources, ...webRequests, ...embedded],
+            "worker-src": [...sources, ...(allowBlobs ? ["blob:"] : [])],
+        },
+        allowUnsafeEval,
+        allowUnsafeInline,
+        allowDataUrls,
+        allowBlobs,
+    }
+}
+
+export const programNetworkPermissions = (program: ProgramManifest): NetworkPermissions => {
+    const origins = webRequestOrigins(program)
+    return {
+        allowNetwork: true,
+        allowedOrigins: [new URL(program.manifestUrl).origin, ...origins]
+    }
+}
+
+/** 
+ * Resolves to the urls of manifest files that are not
+ * in the client cache. Files that cannot be checked are
+ * counted as missing.
+ */
+export const findMissingProgramFiles = async (
+    program: ProgramManifest,
+    fileExists: (url: string) => Promise<boolean>
+) => {
+    const found = await Promise.all(program.files.map(({url}) => {
+        return fileExists(url).catch(() => false)
+    }))
+    return program.files
+        .filter((_, index) => !found[index])
+        .map(({url}) => url)
+}
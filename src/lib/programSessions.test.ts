@@ -0,0 +1,112 @@
+import {expect, it, describe} from "vitest"
+import {
+    createProgramSessionRegistry,
+    ProgramLaunch,
+    ProgramSessionStore,
+    StoredProgramSession,
+    SESSION_PRUNE_GRACE_MILLISECONDS,
+    resetSessionStats,
+    summarizeSession
+} from "./programSessions"
+import {compilePolicyRoutes} from "./policyRoutes"
+import {CACHE_ONLY_POLICY} from "./serviceWorkerMeta"
+
+const launch: ProgramLaunch = {
+    entry: "https://cookies.com/index.js",
+    securityPolicy: "default-src 'self';",
+    manifest: null,
+    networkPermissions: null,
+    integrity: {"https://cookies.com/index.js": "sha256-abc="}
+}
+
+const createMemoryStore = () => {
+    const stored = new Map<string, StoredProgramSession>()
+    const store: ProgramSessionStore = {
+        load: async (clientId) => stored.get(clientId) || null,
+        save: async (session) => { stored.set(session.clientId, structuredClone(session)) },
+        remove: async (clientId) => stored.delete(clientId),
+        clientIds: async () => [...stored.keys()]
+    }
+    return {store, stored} as const
+}
+
+describe("program session registry", () => {
+    it("sessions should be created and removed per client", async () => {
+        const sessions = createProgramSessionRegistry()
+        const first = await sessions.create("first", launch)
+        await sessions.create("second", {...launch, entry: "https://pizza.com/index.js"})
+        expect(sessions.size()).toBe(2)
+        expect(await sessions.get("first")).toBe(first)
+        expect((await sessions.get("second"))?.entry).toBe("https://pizza.com/index.js")
+        expect(await sessions.get("unknown")).toBe(null)
+        expect(await sessions.delete("first")).toBe(true)
+        expect(await sessions.get("first")).toBe(null)
+        expect(await sessions.delete("first")).toBe(false)
+    })
+
+    it("reset should only clear stats of given session", async () => {
+        const sessions = createProgramSessionRegistry()
+        const first = await sessions.create("first", launch)
+        const second = await sessions.create("second", launch)
+        first.stats.requests = 2
+        first.stats.lastRequestAt = Date.now()
+        second.stats.requests = 3
+        resetSessionStats(first)
+        expect(summarizeSession(first).stats.requests).toBe(0)
+        expect(first.stats.lastRequestAt).toBe(null)
+        expect(summarizeSession(second).stats.requests).toBe(3)
+    })
+
+    it("sessions of inactive clients should be pruned, unless recently launched", async () => {
+        const sessions = createProgramSessionRegistry()
+        await sessions.create("active", launch)
+        await sessions.create("closed", launch)
+        const now = Date.now()
+        expect(await sessions.prune(["active"], now)).toBe(0)
+        const later = now + SESSION_PRUNE_GRACE_MILLISECONDS + 1
+        expect(await sessions.prune(["active"], later)).toBe(1)
+        expect(sessions.peek("active")).not.toBe(null)
+        expect(sessions.peek("closed")).toBe(null)
+    })
+
+    it("sessions should be restored from store after worker restarts", async () => {
+        const {store, stored} = createMemoryStore()
+        const sessions = createProgramSessionRegistry({store})
+        const session = await sessions.create("program", launch)
+        session.policyRoutes = compilePolicyRoutes([
+            {pattern: "**/*.png", type: "glob", policy: CACHE_ONLY_POLICY}
+        ])
+        session.harRecording = {maxEntries: 5}
+        await sessions.save(session)
+
+        const restarted = createProgramSessionRegistry({store})
+        expect(restarted.peek("program")).toBe(null)
+        const restored = await restarted.get("program")
+        expect(restored?.entry).toBe(launch.entry)
+        expect(restored?.integrity).toStrictEqual(launch.integrity)
+        expect(restored?.policyRoutes?.[0].matcher.test("https://cookies.com/a.png")).toBe(true)
+        expect(restored?.recorder?.isRecording()).toBe(true)
+        expect(restarted.peek("program")).toBe(restored)
+        expect(await restarted.get("unknown")).toBe(null)
+
+        // sessions stored by previous worker are pruned once their client is gone
+        const later = Date.now() + SESSION_PRUNE_GRACE_MILLISECONDS + 1
+        expect(await restarted.prune([], later)).toBe(1)
+        expect(stored.size).toBe(0)
+    })
+
+    it("summaries should be serializable and exclude compiled routes", async () => {
+        const sessions = createProgramSessionRegistry()
+        const session = await sessions.create("program", launch)
+        session.policyRoutes = compilePolicyRoutes([
+            {pattern: "**/*.png", type: "glob", policy: CACHE_ONLY_POLICY}
+        ])
+        session.stats.requests = 3
+        const [summary] = sessions.summaries()
+        expect(summary.policyRouteCount).toBe(1)
+        expect(summary.integrityProtectedFiles).toBe(1)
+        expect(summary.stats.requests).toBe(3)
+        expect("policyRoutes" in summary).toBe(false)
+        expect(JSON.parse(JSON.stringify(summary))).toStrictEqual(summary)
+    })
+})
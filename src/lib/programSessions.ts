@@ -0,0 +1,240 @@
+import type {CompiledPolicyRoute} from "./policyRoutes"
+import type {NetworkPermissions} from "./networkPermissions"
+import type {IntegrityManifest} from "./subresourceIntegrity"
+import type {ProgramManifest} from "./programManifest"
+import {createHarRecorder, HarRecorder, HarRecordingOptions} from "./harRecorder"
+import type {LogLevel} from "./serviceWorkerMeta"
+import type {CompiledLogFilter} from "./requestLog"
+
+export type ProgramLogSettings = {
+    log: boolean
+    logLevel: LogLevel
+    logFilter: CompiledLogFilter | null
+}
+
+export type ProgramSessionStats = {
+    requests: number
+    networkDenials: number
+    integrityFailures: number
+    cacheHits: number
+    cacheMisses: number
+    /** as declared by response content-length */
+    bytes: number
+    /** milliseconds since unix epoch, null if no requests were made */
+    lastRequestAt: number | null
+}
+
+/**
+ * Everything the service worker knows about a
+ * program launched into a sandbox client (iframe).
+ */
+export type ProgramSession = {
+    clientId: string
+    entry: string
+    securityPolicy: string
+    manifest: ProgramManifest | null
+    networkPermissions: NetworkPermissions | null
+    integrity: IntegrityManifest | null
+    /** overrides globally configured routes if set */
+    policyRoutes: ReadonlyArray<CompiledPolicyRoute> | null
+    /** records requests of this program only, if set */
+    recorder: HarRecorder | null
+    /** options recording was started with, null if not recording */
+    harRecording: HarRecordingOptions | null
+    /** overrides globally configured logging if set */
+    logSettings: ProgramLogSettings | null
+    launchedAt: number
+    stats: ProgramSessionStats
+}
+
+export type ProgramLaunch = Pick<
+    ProgramSession,
+    "entry" | "securityPolicy" | "manifest" | "networkPermissions" | "integrity"
+>
+
+/** serializable view of a session, excluding compiled routes */
+export type ProgramSessionSummary = Omit<
+    ProgramSession, 
+    "policyRoutes" | "integrity" | "recorder" | "harRecording" | "logSettings"
+> & {
+    policyRouteCount: number
+    integrityProtectedFiles: number
+}
+
+/** 
+ * What is persisted of a session (compiled routes and filters
+ * are structured cloneable). Recorded HAR entries and stats 
+ * are not persisted, they restart empty if the worker does.
+ */
+export type StoredProgramSession = Omit<ProgramSession, "recorder" | "stats">
+
+/** persists sessions, so they survive worker restarts */
+export type ProgramSessionStore = {
+    load: (clientId: string) => Promise<StoredProgramSession | null>
+    save: (session: StoredProgramSession) => Promise<unknown>
+    remove: (clientId: string) => Promise<unknown>
+    clientIds: () => Promise<string[]>
+}
+
+export type ProgramSessionRegistryOptions = {
+    store?: ProgramSessionStore
+}
+
+export type ProgramSessionRegistry = {
+    /** resolves once session is persisted */
+    create: (clientId: string, launch: ProgramLaunch) => Promise<ProgramSession>
+    /** restores session from store, if it isn't in memory */
+    get: (clientId: string) => Promise<ProgramSession | null>
+    /** sessions in memory only, for callers that already awaited get */
+    peek: (clientId: string) => ProgramSession | null
+    /** persists changes to a session's routes, log settings or recording */
+    save: (session: ProgramSession) => Promise<void>
+    delete: (clientId: string) => Promise<boolean>
+    /** 
+     * removes sessions of clients that no longer exist,
+     * other than recently launched ones 
+     */
+    prune: (activeClientIds: ReadonlyArray<string>, now?: number) => Promise<number>
+    /** sessions in memory only */
+    summaries: () => ProgramSessionSummary[]
+    size: () => number
+}
+
+// clients of programs that are still loading may
+// not be listed as active yet
+export const SESSION_PRUNE_GRACE_MILLISECONDS = 30_000
+
+export const summarizeSession = (session: ProgramSession): ProgramSessionSummary => {
+    const {
+        policyRoutes, 
+        integrity, 
+        recorder: _recorder, 
+        harRecording: _harRecording,
+        logSettings: _logSettings, 
+        ...rest
+    } = session
+    return {
+        ...rest,
+        stats: {...rest.stats},
+        policyRouteCount: policyRoutes?.length || 0,
+        integrityProtectedFiles: integrity ? Object.keys(integrity).length : 0
+    }
+}
+
+const emptyStats = (): ProgramSessionStats => ({
+    requests: 0,
+    networkDenials: 0,
+    integrityFailures: 0,
+    cacheHits: 0,
+    cacheMisses: 0,
+    bytes: 0,
+    lastRequestAt: null
+})
+
+export const resetSessionStats = (session: ProgramSession) => {
+    session.stats = emptyStats()
+}
+
+const storedSession = (session: ProgramSession): StoredProgramSession => {
+    const {recorder: _recorder, stats: _stats, ...stored} = session
+    return stored
+}
+
+const restoredSession = (stored: StoredProgramSession): ProgramSession => {
+    const recorder = stored.harRecording ? createHarRecorder() : null
+    if (recorder && stored.harRecording) {
+        recorder.start(stored.harRecording)
+    }
+    return {...stored, recorder, stats: emptyStats()}
+}
+
+/**
+ * Sessions are kept in memory, and persisted if a store
+ * is given. Browsers stop idle service workers, sessions are 
+ * restored from store the first time they are requested after.
+ */
+export const createProgramSessionRegistry = (
+    options: ProgramSessionRegistryOptions = {}
+): ProgramSessionRegistry => {
+    const {store} = options
+    const sessions = new Map<string, ProgramSession>()
+    const restoring = new Map<string, Promise<ProgramSession | null>>()
+    const persist = async (session: ProgramSession) => {
+        try {
+            await store?.save(storedSession(session))
+        } catch (error) {
+            console.warn("program session could not be persisted", error)
+        }
+    }
+    const restore = async (clientId: string) => {
+        const stored = await store?.load(clientId).catch(() => null)
+        // session may have been created while loading
+        const current = sessions.get(clientId)
+        if (current || !stored) {
+            return current || null
+        }
+        const session = restoredSession(stored)
+        sessions.set(clientId, session)
+        return session
+    }
+    const remove = async (clientId: string) => {
+        const existed = sessions.delete(clientId)
+        restoring.delete(clientId)
+        await store?.remove(clientId).catch(() => {})
+        return existed
+    }
+    return {
+        create: async (clientId, launch) => {
+            const session: ProgramSession = {
+                clientId,
+                ...launch,
+                policyRoutes: null,
+                recorder: null,
+                harRecording: null,
+                logSettings: null,
+                launchedAt: Date.now(),
+                stats: emptyStats()
+            }
+            sessions.set(clientId, session)
+            await persist(session)
+            return session
+        },
+        get: async (clientId) => {
+            const session = sessions.get(clientId)
+            if (session || !store || clientId.length < 1) {
+                return session || null
+            }
+            let pending = restoring.get(clientId)
+            if (!pending) {
+                pending = restore(clientId)
+                restoring.set(clientId, pending)
+                const done = () => { restoring.delete(clientId) }
+                pending.then(done, done)
+            }
+            return pending
+        },
+        peek: (clientId) => sessions.get(clientId) || null,
+        save: persist,
+        delete: remove,
+        prune: async (activeClientIds, now = Date.now()) => {
+            const active = new Set(activeClientIds)
+            const stored = await store?.clientIds().catch(() => []) || []
+            const known = new Set([...sessions.keys(), ...stored])
+            let removed = 0
+            for (const clientId of known) {
+                const session = sessions.get(clientId)
+                // sessions only in store were launched by a 
+                // previous worker, their clients have loaded
+                const launching = session 
+                    && now - session.launchedAt < SESSION_PRUNE_GRACE_MILLISECONDS
+                if (!active.has(clientId) && !launching) {
+                    await remove(clientId)
+                    removed++
+                }
+            }
+            return removed
+        },
+        summaries: () => [...sessions.values()].map(summarizeSession),
+        size: () => sessions.size
+    }
+}
@@ -0,0 +1,123 @@
+import {expect, it, describe} from "vitest"
+import {
+    parseRangeHeader,
+    rangeResponse,
+    IGNORE_RANGE,
+    UNSATISFIABLE_RANGE
+} from "./rangeRequests"
+
+const file = "0123456789"
+
+const fileResponse = (headers: Record<string, string> = {}) => new Response(file, {
+    status: 200,
+    headers: {
+        "content-type": "text/plain",
+        "content-length": file.length.toString(),
+        ...headers
+    }
+})
+
+const rangeRequest = (range: string, headers: Record<string, string> = {}) => {
+    return new Request("https://cookies.com/file.txt", {
+        headers: {range, ...headers}
+    })
+}
+
+describe("range header parsing", () => {
+    it("should parse bounded, open-ended and suffix ranges", () => {
+        expect(parseRangeHeader("bytes=0-4", 10)).toStrictEqual([{start: 0, end: 4}])
+        expect(parseRangeHeader("bytes=5-", 10)).toStrictEqual([{start: 5, end: 9}])
+        expect(parseRangeHeader("bytes=-3", 10)).toStrictEqual([{start: 7, end: 9}])
+        expect(parseRangeHeader("bytes=0-1, 4-5", 10)).toStrictEqual([
+            {start: 0, end: 1},
+            {start: 4, end: 5}
+        ])
+    })
+
+    it("should clamp ranges that extend past end of resource", () => {
+        expect(parseRangeHeader("bytes=5-100", 10)).toStrictEqual([{start: 5, end: 9}])
+        expect(parseRangeHeader("bytes=-100", 10)).toStrictEqual([{start: 0, end: 9}])
+    })
+
+    it("should ignore malformed headers and unknown units", () => {
+        expect(parseRangeHeader("items=0-4", 10)).toBe(IGNORE_RANGE)
+        expect(parseRangeHeader("bytes=", 10)).toBe(IGNORE_RANGE)
+        expect(parseRangeHeader("bytes=-", 10)).toBe(IGNORE_RANGE)
+        expect(parseRangeHeader("bytes=abc", 10)).toBe(IGNORE_RANGE)
+        expect(parseRangeHeader("bytes=5-2", 10)).toBe(IGNORE_RANGE)
+    })
+
+    it("should return unsatisfiable if no ranges overlap resource", () => {
+        expect(parseRangeHeader("bytes=10-20", 10)).toBe(UNSATISFIABLE_RANGE)
+        expect(parseRangeHeader("bytes=-0", 10)).toBe(UNSATISFIABLE_RANGE)
+    })
+})
+
+describe("range responses", () => {
+    it("should return full response with accept-ranges header if request has no range", async () => {
+        const res = await rangeResponse(
+            new Request("https://cookies.com/file.txt"),
+            fileResponse()
+        )
+        expect(res.status).toBe(200)
+        expect(res.headers.get("accept-ranges")).toBe("bytes")
+        expect(await res.text()).toBe(file)
+    })
+
+    it("should return 206 with requested bytes for single range", async () => {
+        const res = await rangeResponse(rangeRequest("bytes=2-5"), fileResponse())
+        expect(res.status).toBe(206)
+        expect(res.headers.get("content-range")).toBe("bytes 2-5/10")
+        expect(res.headers.get("content-length")).toBe("4")
+        expect(res.headers.get("content-type")).toBe("text/plain")
+        expect(await res.text()).toBe("2345")
+    })
+
+    it("should return 206 for single range even if response has no content-length", async () => {
+        const res = await rangeResponse(
+            rangeRequest("bytes=-2"), 
+            new Response(file, {status: 200})
+        )
+        expect(res.status).toBe(206)
+        expect(res.headers.get("content-range")).toBe("bytes 8-9/10")
+        expect(await res.text()).toBe("89")
+    })
+
+    it("should return multipart response for multiple ranges", async () => {
+        const res = await rangeResponse(rangeRequest("bytes=0-1,8-9"), fileResponse())
+        expect(res.status).toBe(206)
+        const contentType = res.headers.get("content-type") || ""
+        expect(contentType.startsWith("multipart/byteranges; boundary=")).toBe(true)
+        const boundary = contentType.split("boundary=")[1]
+        const body = await res.text()
+        expect(body.includes("content-range: bytes 0-1/10\r\n\r\n01")).toBe(true)
+        expect(body.includes("content-range: bytes 8-9/10\r\n\r\n89")).toBe(true)
+        expect(body.endsWith(`--${boundary}--\r\n`)).toBe(true)
+        expect(res.headers.get("content-length")).toBe(
+            new TextEncoder().encode(body).byteLength.toString()
+        )
+    })
+
+    it("should return 416 if range is not satisfiable", async () => {
+        const res = await rangeResponse(rangeRequest("bytes=20-30"), fileResponse())
+        expect(res.status).toBe(416)
+        expect(res.headers.get("content-range")).toBe("bytes */10")
+    })
+
+    it("should return full response if if-range does not match etag", async () => {
+        const res = await rangeResponse(
+            rangeRequest("bytes=0-1", {"if-range": "\"old\""}),
+            fileResponse({etag: "\"new\""})
+        )
+        expect(res.status).toBe(200)
+        expect(await res.text()).toBe(file)
+    })
+
+    it("should not modify non-200 responses", async () => {
+        const res = await rangeResponse(
+            rangeRequest("bytes=0-1"),
+            new Response("", {status: 404})
+        )
+        expect(res.status).toBe(404)
+    })
+})
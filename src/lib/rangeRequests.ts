@@ -0,0 +1,177 @@
+export type ByteRange = {
+    start: number
+    /** inclusive */
+    end: number
+}
+
+export const UNSATISFIABLE_RANGE = -1
+export const IGNORE_RANGE = 0
+
+const MAX_RANGES = 16
+
+/**
+ * Parses a "Range" header for a resource of the specified
+ * size (RFC 7233). Returns IGNORE_RANGE if the header is
+ * malformed or uses a unit other than bytes, in which case
+ * the full resource should be sent, and UNSATISFIABLE_RANGE
+ * if none of the ranges overlap the resource.
+ */
+export const parseRangeHeader = (header: string, size: number) => {
+    const [unit, specifiers = ""] = header.split("=", 2).map((part) => part.trim())
+    if (unit.toLowerCase() !== "bytes" || specifiers.length < 1) {
+        return IGNORE_RANGE
+    }
+    const specs = specifiers.split(",").map((spec) => spec.trim())
+    if (specs.length > MAX_RANGES) {
+        return IGNORE_RANGE
+    }
+    const ranges: ByteRange[] = []
+    for (const spec of specs) {
+        const match = spec.match(/^(\d*)-(\d*)$/)
+        if (!match || (match[1] === "" && match[2] === "")) {
+            return IGNORE_RANGE
+        }
+        const [, first, last] = match
+        if (first === "") {
+            const suffixLength = parseInt(last, 10)
+            if (suffixLength > 0 && size > 0) {
+                ranges.push({start: Math.max(size - suffixLength, 0), end: size - 1})
+            }
+            continue
+        }
+        const start = parseInt(first, 10)
+        const end = last === "" ? size - 1 : parseInt(last, 10)
+        if (end < start) {
+            return IGNORE_RANGE
+        }
+        if (start < size) {
+            ranges.push({start, end: Math.min(end, size - 1)})
+        }
+    }
+    if (ranges.length < 1) {
+        return UNSATISFIABLE_RANGE
+    }
+    return ranges
+}
+
+const sliceStream = (
+    body: ReadableStream<Uint8Array>,
+    {start, end}: ByteRange
+) => {
+    let offset = 0
+    return body.pipeThrough(new TransformStream<Uint8Array, Uint8Array>({
+        transform: (chunk, controller) => {
+            const chunkStart = offset
+            offset += chunk.byteLength
+            const from = Math.max(start - chunkStart, 0)
+            const to = Math.min(end + 1 - chunkStart, chunk.byteLength)
+            if (from < to) {
+                controller.enqueue(chunk.subarray(from, to))
+            }
+        }
+    }))
+}
+
+const contentRange = ({start, end}: ByteRange, size: number) => `bytes ${start}-${end}/${size}`
+
+const rangeNotSatisfiable = (size: number) => new Response("range not satisfiable", {
+    status: 416,
+    statusText: "RANGE NOT SATISFIABLE",
+    headers: {"content-range": `bytes */${size}`}
+})
+
+const partialContentHeaders = (response: Response) => {
+    const headers = new Headers(response.headers)
+    headers.set("accept-ranges", "bytes")
+    headers.delete("content-length")
+    return headers
+}
+
+const multipartBody = async (
+    response: Response,
+    ranges: ReadonlyArray<ByteRange>,
+    size: number,
+    boundary: string
+) => {
+    const file = new Uint8Array(await response.arrayBuffer())
+    const contentType = response.headers.get("content-type") || "application/octet-stream"
+    const encoder = new TextEncoder()
+    const parts: Uint8Array[] = []
+    for (const range of ranges) {
+        parts.push(encoder.encode(
+            `\r\n--${boundary}\r\ncontent-type: ${contentType}\r\ncontent-range: ${contentRange(range, size)}\r\n\r\n`
+        ))
+        parts.push(file.subarray(range.start, range.end + 1))
+    }
+    parts.push(encoder.encode(`\r\n--${boundary}--\r\n`))
+    const length = parts.reduce((total, part) => total + part.byteLength, 0)
+    const body = new Uint8Array(length)
+    let offset = 0
+    for (const part of parts) {
+        body.set(part, offset)
+        offset += part.byteLength
+    }
+    return body
+}
+
+const ifRangeMatches = (request: Request, response: Response) => {
+    const ifRange = request.headers.get("if-range")
+    if (!ifRange) {
+        return true
+    }
+    return (
+        ifRange === response.headers.get("etag")
+        || ifRange === response.headers.get("last-modified")
+    )
+}
+
+/**
+ * Converts a full (200) response into a partial content (206)
+ * response if the request has a satisfiable "Range" header.
+ * Responses that can't be ranged are returned as is.
+ */
+export const rangeResponse = async (request: Request, response: Response) => {
+    if (response.status !== 200 || !response.body) {
+        return response
+    }
+    response.headers.set("accept-ranges", "bytes")
+    const rangeHeader = request.headers.get("range")
+    if (!rangeHeader || !ifRangeMatches(request, response)) {
+        return response
+    }
+    let sized = response
+    let size = parseInt(response.headers.get("content-length") || "", 10)
+    if (isNaN(size)) {
+        const buffer = await response.arrayBuffer()
+        size = buffer.byteLength
+        sized = new Response(buffer, response)
+    }
+    const ranges = parseRangeHeader(rangeHeader, size)
+    if (ranges === IGNORE_RANGE) {
+        return sized
+    }
+    if (ranges === UNSATISFIABLE_RANGE) {
+        await sized.body?.cancel()
+        return rangeNotSatisfiable(size)
+    }
+    const headers = partialContentHeaders(sized)
+    if (ranges.length === 1) {
+        const [range] = ranges
+        headers.set("content-range", contentRange(range, size))
+        headers.set("content-length", (range.end - range.start + 1).toString())
+        return new Response(sliceStream(sized.body!, range), {
+            status: 206,
+            statusText: "PARTIAL CONTENT",
+            headers
+        })
+    }
+    const boundary = `sandbox-range-${Math.random().toString(36).slice(2)}`
+    const body = await multipartBody(sized, ranges, size, boundary)
+    headers.set("content-type", `multipart/byteranges; boundary=${boundary}`)
+    headers.set("content-length", body.byteLength.toString())
+    return new Response(body, {
+        status: 206,
+        statusText: "PARTIAL CONTENT",
+        headers
+    })
+}
@@ -0,0 +1,79 @@
+import {expect, it, describe} from "vitest"
+import {createRequestCoalescer, isCoalescable} from "./requestCoalescer"
+
+describe("request coalescing", () => {
+    it("concurrent calls with same key should share one task and each recieve a readable response", async () => {
+        const coalescer = createRequestCoalescer()
+        let calls = 0
+        const task = async () => {
+            calls++
+            await new Promise((resolve) => setTimeout(resolve, 5))
+            return new Response("shared", {status: 200})
+        }
+        const responses = await Promise.all([
+            coalescer.coalesce("a", task),
+            coalescer.coalesce("a", task),
+            coalescer.coalesce("a", task),
+        ])
+        expect(calls).toBe(1)
+        const texts = await Promise.all(responses.map((res) => res.text()))
+        expect(texts).toStrictEqual(["shared", "shared", "shared"])
+        expect(coalescer.inFlightCount()).toBe(0)
+    })
+
+    it("original response should be given to one caller only", async () => {
+        const coalescer = createRequestCoalescer()
+        const original = new Response("shared", {status: 200})
+        const task = async () => {
+            await new Promise((resolve) => setTimeout(resolve, 5))
+            return original
+        }
+        expect(await coalescer.coalesce("a", task)).toBe(original)
+
+        const shared = new Response("shared", {status: 200})
+        const responses = await Promise.all([
+            coalescer.coalesce("a", async () => shared),
+            coalescer.coalesce("a", task),
+        ])
+        expect(responses.filter((response) => response === shared).length).toBe(1)
+        const texts = await Promise.all(responses.map((res) => res.text()))
+        expect(texts).toStrictEqual(["shared", "shared"])
+    })
+
+    it("calls with different keys or calls after completion should not be shared", async () => {
+        const coalescer = createRequestCoalescer()
+        let calls = 0
+        const task = async () => {
+            calls++
+            return new Response("", {status: 200})
+        }
+        await Promise.all([
+            coalescer.coalesce("a", task),
+            coalescer.coalesce("b", task),
+        ])
+        await coalescer.coalesce("a", task)
+        expect(calls).toBe(3)
+    })
+
+    it("all callers should recieve rejection if shared task fails and key should be released", async () => {
+        const coalescer = createRequestCoalescer()
+        const task = async () => {
+            throw new Error("failed")
+            return new Response("")
+        }
+        const results = await Promise.allSettled([
+            coalescer.coalesce("a", task),
+            coalescer.coalesce("a", task),
+        ])
+        expect(results.every((result) => result.status === "rejected")).toBe(true)
+        expect(coalescer.inFlightCount()).toBe(0)
+    })
+
+    it("only GET requests without range or conditional headers should be coalescable", () => {
+        const url = "https://cookies.com/index.js"
+        expect(isCoalescable(new Request(url))).toBe(true)
+        expect(isCoalescable(new Request(url, {method: "POST"}))).toBe(false)
+        expect(isCoalescable(new Request(url, {headers: {range: "bytes=0-1"}}))).toBe(false)
+        expect(isCoalescable(new Request(url, {headers: {"if-none-match": "\"1\""}}))).toBe(false)
+    })
+})
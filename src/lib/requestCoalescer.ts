@@ -0,0 +1,69 @@
+type SharedResponse = {
+    response: Promise<Response>
+    /** callers that have yet to receive response */
+    waiting: number
+}
+
+/**
+ * Shares a single in-flight response between concurrent
+ * callers with the same key. The last caller to resume receives
+ * the original response and the rest receive clones, taken before
+ * any caller can read the body. A lone caller's response is never
+ * cloned, as an unread clone buffers the entire body.
+ */
+export const createRequestCoalescer = () => {
+    const inFlight = new Map<string, SharedResponse>()
+    return {
+        coalesce: async (key: string, task: () => Promise<Response>) => {
+            let shared = inFlight.get(key)
+            if (!shared) {
+                const entry: SharedResponse = {response: task(), waiting: 0}
+                inFlight.set(key, entry)
+                // removed before any caller resumes, so that callers 
+                // arriving later don't need a clone of a read body
+                const remove = () => { inFlight.delete(key) }
+                entry.response.then(remove, remove)
+                shared = entry
+            }
+            shared.waiting++
+            try {
+                const response = await shared.response
+                return shared.waiting > 1 ? response.clone() : response
+            } finally {
+                shared.waiting--
+            }
+        },
+        inFlightCount: () => inFlight.size
+    } as const
+}
+
+export type RequestCoalescer = ReturnType<typeof createRequestCoalescer>
+
+const COALESCE_BLOCKING_HEADERS = [
+    "range",
+    "if-none-match",
+    "if-modified-since",
+    "if-range",
+] as const
+
+/** media is streamed, clones would buffer it for slower readers */
+const UNCOALESCABLE_DESTINATIONS: ReadonlyArray<string> = ["audio", "video", "track"]
+
+/**
+ * Only body-less GET requests whose response does not
+ * depend on per-request headers can be shared.
+ */
+export const isCoalescable = (request: Request) => {
+    if (request.method !== "GET") {
+        return false
+    }
+    if (UNCOALESCABLE_DESTINATIONS.includes(request.destination)) {
+        return false
+    }
+    for (const header of COALESCE_BLOCKING_HEADERS) {
+        if (request.headers.has(header)) {
+            return false
+        }
+    }
+    return true
+}
@@ -0,0 +1,65 @@
+import {expect, it, describe} from "vitest"
+import {compileLogFilter, shouldEmitRecord, isLogLevel} from "./requestLog"
+import {
+    CACHE_ONLY_POLICY,
+    NETWORK_ONLY_POLICY,
+    RequestLogRecord
+} from "./serviceWorkerMeta"
+
+const record = (overrides: Partial<RequestLogRecord> = {}): RequestLogRecord => ({
+    level: "info",
+    tag: "network",
+    url: "https://cookies.com/assets/cookie.png?v=1",
+    method: "GET",
+    policy: NETWORK_ONLY_POLICY,
+    cacheHit: false,
+    cacheStatus: 200,
+    mode: "cors",
+    destination: "image",
+    clientId: "client",
+    timestamp: 0,
+    ...overrides
+})
+
+describe("request log levels", () => {
+    it("records below configured level should not be emitted", () => {
+        const settings = {level: "warn", filter: null} as const
+        expect(shouldEmitRecord(record({level: "debug"}), settings)).toBe(false)
+        expect(shouldEmitRecord(record({level: "info"}), settings)).toBe(false)
+        expect(shouldEmitRecord(record({level: "warn"}), settings)).toBe(true)
+        expect(shouldEmitRecord(record({level: "error"}), settings)).toBe(true)
+        expect(isLogLevel("warn")).toBe(true)
+        expect(isLogLevel("verbose")).toBe(false)
+        expect(isLogLevel("toString")).toBe(false)
+    })
+})
+
+describe("request log filters", () => {
+    it("records should be filtered by url pattern and policy", () => {
+        const filter = compileLogFilter({
+            urls: [{type: "glob", pattern: "https://cookies.com/**/*.png"}],
+            policies: [NETWORK_ONLY_POLICY]
+        })
+        const settings = {level: "debug", filter} as const
+        expect(shouldEmitRecord(record(), settings)).toBe(true)
+        expect(shouldEmitRecord(record({url: "https://cookies.com/index.js"}), settings)).toBe(false)
+        expect(shouldEmitRecord(record({policy: CACHE_ONLY_POLICY}), settings)).toBe(false)
+        expect(shouldEmitRecord(record({policy: null}), settings)).toBe(false)
+    })
+
+    it("unspecified criteria should match everything", () => {
+        const filter = compileLogFilter({urls: [{type: "regex", pattern: "\\.png"}]})
+        const settings = {level: "debug", filter} as const
+        expect(shouldEmitRecord(record({policy: null}), settings)).toBe(true)
+        expect(shouldEmitRecord(record({url: "https://cookies.com/a.js"}), settings)).toBe(false)
+    })
+
+    it("malformed filters should throw", () => {
+        expect(() => compileLogFilter({urls: "*" as unknown as []})).toThrow()
+        expect(() => compileLogFilter({urls: [{type: "glob", pattern: ""}]})).toThrow()
+        expect(() => compileLogFilter({
+            urls: [{type: "wildcard" as "glob", pattern: "*"}]
+        })).toThrow()
+        expect(() => compileLogFilter({policies: [100 as typeof CACHE_ONLY_POLICY]})).toThrow()
+    })
+})
@@ -0,0 +1,88 @@
+import {
+    isServiceWorkerPolicy,
+    LogLevel,
+    RequestLogRecord,
+    ServiceWorkerPolicy
+} from "./serviceWorkerMeta"
+import {globToRegex, PolicyRoute} from "./policyRoutes"
+
+export const logLevels = {
+    debug: 0,
+    info: 1,
+    warn: 2,
+    error: 3
+} as const satisfies Record<LogLevel, number>
+
+export const isLogLevel = (level: unknown): level is LogLevel => {
+    return typeof level === "string" && Object.prototype.hasOwnProperty.call(logLevels, level)
+}
+
+/**
+ * Records are only emitted if they match any of
+ * the url patterns and policies, each criteria is
+ * ignored if not specified. Url patterns are matched
+ * the same way as policy routes.
+ */
+export type LogFilter = {
+    urls?: Array<Pick<PolicyRoute, "pattern" | "type">>
+    policies?: ServiceWorkerPolicy[]
+}
+
+export type CompiledLogFilter = {
+    urls: ReadonlyArray<{type: PolicyRoute["type"], matcher: RegExp}> | null
+    policies: ReadonlySet<ServiceWorkerPolicy> | null
+}
+
+/** throws if filter is malformed */
+export const compileLogFilter = (filter: LogFilter): CompiledLogFilter => {
+    const {urls, policies} = filter
+    if (urls !== undefined && !Array.isArray(urls)) {
+        throw new Error("log filter 'urls' must be an array")
+    }
+    if (policies !== undefined && (
+        !Array.isArray(policies) || !policies.every(isServiceWorkerPolicy)
+    )) {
+        throw new Error("log filter 'policies' must be an array of service worker policies")
+    }
+    return {
+        urls: urls ? urls.map(({pattern, type}, index) => {
+            if (typeof pattern !== "string" || pattern.length < 1) {
+                throw new Error(`log filter url ${index} must have a non-empty pattern`)
+            }
+            if (type !== "glob" && type !== "regex") {
+                throw new Error(`log filter url ${index} ("${pattern}") has an unknown type "${type}"`)
+            }
+            const matcher = type === "glob" ? globToRegex(pattern) : new RegExp(pattern)
+            return {type, matcher}
+        }) : null,
+        policies: policies ? new Set(policies) : null
+    }
+}
+
+export type LogSettings = {
+    level: LogLevel
+    filter: CompiledLogFilter | null
+}
+
+export const shouldEmitRecord = (
+    record: RequestLogRecord,
+    {level, filter}: LogSettings
+) => {
+    if (logLevels[record.level] < logLevels[level]) {
+        return false
+    }
+    if (!filter) {
+        return true
+    }
+    const {urls, policies} = filter
+    if (policies && (record.policy === null || !policies.has(record.policy))) {
+        return false
+    }
+    if (!urls) {
+        return true
+    }
+    const urlWithoutQuery = record.url.split(/[?#]/)[0]
+    return urls.some(({type, matcher}) => (
+        matcher.test(type === "glob" ? urlWithoutQuery : record.url)
+    ))
+}
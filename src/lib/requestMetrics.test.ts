@@ -0,0 +1,69 @@
+import {expect, it, describe} from "vitest"
+import {
+    createRequestMetrics,
+    responseBytes,
+    RequestOutcome,
+    LATENCY_BUCKET_BOUNDS_MILLISECONDS
+} from "./requestMetrics"
+import {CACHE_FIRST_POLICY, NETWORK_ONLY_POLICY} from "./serviceWorkerMeta"
+
+const outcome = (overrides: Partial<RequestOutcome> = {}): RequestOutcome => ({
+    policy: CACHE_FIRST_POLICY,
+    cacheHit: false,
+    cacheMiss: false,
+    networkError: false,
+    bytes: 0,
+    latencyMilliseconds: 1,
+    ...overrides
+})
+
+describe("request metrics", () => {
+    it("requests should be counted per policy", () => {
+        const metrics = createRequestMetrics()
+        metrics.recordRequest(outcome({cacheHit: true, bytes: 10}))
+        metrics.recordRequest(outcome({cacheMiss: true, bytes: 5}))
+        metrics.recordRequest(outcome({policy: NETWORK_ONLY_POLICY, networkError: true}))
+        const {policies} = metrics.snapshot()
+        expect(policies.cacheFirst?.requests).toBe(2)
+        expect(policies.cacheFirst?.cacheHits).toBe(1)
+        expect(policies.cacheFirst?.cacheMisses).toBe(1)
+        expect(policies.cacheFirst?.bytes).toBe(15)
+        expect(policies.networkOnly?.networkErrors).toBe(1)
+        expect(policies.cacheOnly).toBe(undefined)
+    })
+
+    it("latencies should be bucketed into histogram", () => {
+        const metrics = createRequestMetrics()
+        metrics.recordRequest(outcome({latencyMilliseconds: 5}))
+        metrics.recordRequest(outcome({latencyMilliseconds: 10}))
+        metrics.recordRequest(outcome({latencyMilliseconds: 60}))
+        metrics.recordRequest(outcome({latencyMilliseconds: 60_000}))
+        const latency = metrics.snapshot().policies.cacheFirst!.latency
+        expect(latency.counts.length).toBe(LATENCY_BUCKET_BOUNDS_MILLISECONDS.length + 1)
+        expect(latency.counts[0]).toBe(2)
+        expect(latency.counts[2]).toBe(1)
+        expect(latency.counts[latency.counts.length - 1]).toBe(1)
+        expect(latency.totalMilliseconds).toBe(60_075)
+    })
+
+    it("snapshots should be serializable copies, and reset should clear counters", () => {
+        const metrics = createRequestMetrics()
+        metrics.recordRequest(outcome())
+        metrics.recordInMemoryFallback("rootDocument")
+        const snapshot = metrics.snapshot()
+        metrics.recordRequest(outcome())
+        expect(snapshot.policies.cacheFirst?.requests).toBe(1)
+        expect(snapshot.inMemoryFallbacks.rootDocument).toBe(1)
+        expect(JSON.parse(JSON.stringify(snapshot))).toStrictEqual(snapshot)
+        metrics.reset(snapshot.takenAt + 1)
+        const cleared = metrics.snapshot()
+        expect(cleared.since).toBe(snapshot.takenAt + 1)
+        expect(cleared.policies).toStrictEqual({})
+        expect(cleared.inMemoryFallbacks.rootDocument).toBe(0)
+    })
+
+    it("bytes should be read from content length", () => {
+        expect(responseBytes(new Response("", {headers: {"content-length": "42"}}))).toBe(42)
+        expect(responseBytes(new Response(""))).toBe(0)
+    })
+})
@@ -0,0 +1,158 @@
+import {
+    serviceWorkerPolicies,
+    ServiceWorkerPolicy
+} from "./serviceWorkerMeta"
+import type {ProgramSessionSummary} from "./programSessions"
+
+export const LATENCY_BUCKET_BOUNDS_MILLISECONDS = [
+    10, 50, 100, 250, 500, 1_000, 2_500, 5_000
+] as const
+
+export type LatencyHistogram = {
+    boundsMilliseconds: ReadonlyArray<number>
+    /**
+     * counts[i] holds requests that took at most boundsMilliseconds[i],
+     * the last count holds requests slower than all bounds
+     */
+    counts: number[]
+    totalMilliseconds: number
+}
+
+export type PolicyMetrics = {
+    requests: number
+    cacheHits: number
+    /** cache was consulted but had no usable copy */
+    cacheMisses: number
+    /** includes network timeouts */
+    networkErrors: number
+    /** as declared by response content-length */
+    bytes: number
+    latency: LatencyHistogram
+}
+
+/** result of a single request handled by fetch core */
+export type RequestOutcome = {
+    policy: ServiceWorkerPolicy
+    cacheHit: boolean
+    cacheMiss: boolean
+    networkError: boolean
+    bytes: number
+    latencyMilliseconds: number
+}
+
+export type ServiceWorkerPolicyName = keyof typeof serviceWorkerPolicies
+
+/** documents served from worker memory when the network is unreachable */
+export type InMemoryDocument = "rootDocument" | "secureScript"
+
+export type RequestMetricsSnapshot = {
+    /** milliseconds since unix epoch */
+    since: number
+    takenAt: number
+    policies: Partial<Record<ServiceWorkerPolicyName, PolicyMetrics>>
+    inMemoryFallbacks: Record<InMemoryDocument, number>
+}
+
+export type ServiceWorkerMetrics = {
+    /** worker wide counters, null unless caller is the root document */
+    requests: RequestMetricsSnapshot | null
+    /** 
+     * per program stats, for per extension cache-hit ratios.
+     * Programs only recieve their own
+     */
+    programs: ProgramSessionSummary[]
+}
+
+export type RequestMetrics = {
+    recordRequest: (outcome: RequestOutcome) => void
+    recordInMemoryFallback: (document: InMemoryDocument) => void
+    snapshot: (now?: number) => RequestMetricsSnapshot
+    reset: (now?: number) => void
+}
+
+const policyNames = new Map(
+    Object.entries(serviceWorkerPolicies).map(([name, headers]) => [
+        parseInt(headers["Sw-Policy"], 10),
+        name as ServiceWorkerPolicyName
+    ] as const)
+)
+
+const emptyPolicyMetrics = (): PolicyMetrics => ({
+    requests: 0,
+    cacheHits: 0,
+    cacheMisses: 0,
+    networkErrors: 0,
+    bytes: 0,
+    latency: {
+        boundsMilliseconds: LATENCY_BUCKET_BOUNDS_MILLISECONDS,
+        counts: new Array(LATENCY_BUCKET_BOUNDS_MILLISECONDS.length + 1).fill(0),
+        totalMilliseconds: 0
+    }
+})
+
+const latencyBucket = (milliseconds: number) => {
+    const index = LATENCY_BUCKET_BOUNDS_MILLISECONDS.findIndex(
+        (bound) => milliseconds <= bound
+    )
+    return index < 0 ? LATENCY_BUCKET_BOUNDS_MILLISECONDS.length : index
+}
+
+/** declared length of response body, 0 if unknown */
+export const responseBytes = (response: Response) => {
+    const length = parseInt(response.headers.get("content-length") || "", 10)
+    return isNaN(length) || length < 0 ? 0 : length
+}
+
+export const createRequestMetrics = (): RequestMetrics => {
+    let since = Date.now()
+    let policies = new Map<ServiceWorkerPolicyName, PolicyMetrics>()
+    let inMemoryFallbacks: Record<InMemoryDocument, number> = {
+        rootDocument: 0,
+        secureScript: 0
+    }
+    return {
+        recordRequest: (outcome) => {
+            const name = policyNames.get(outcome.policy)
+            if (!name) {
+                return
+            }
+            const metrics = policies.get(name) || emptyPolicyMetrics()
+            policies.set(name, metrics)
+            metrics.requests++
+            metrics.cacheHits += outcome.cacheHit ? 1 : 0
+            metrics.cacheMisses += outcome.cacheMiss ? 1 : 0
+            metrics.networkErrors += outcome.networkError ? 1 : 0
+            metrics.bytes += outcome.bytes
+            const latency = Math.max(0, outcome.latencyMilliseconds)
+            metrics.latency.counts[latencyBucket(latency)]++
+            metrics.latency.totalMilliseconds += latency
+        },
+        recordInMemoryFallback: (document) => {
+            inMemoryFallbacks[document]++
+        },
+        snapshot: (now = Date.now()) => {
+            const snapshot: RequestMetricsSnapshot = {
+                since,
+                takenAt: now,
+                policies: {},
+                inMemoryFallbacks: {...inMemoryFallbacks}
+            }
+            for (const [name, metrics] of policies) {
+                snapshot.policies[name] = {
+                    ...metrics,
+                    latency: {
+                        ...metrics.latency,
+                        boundsMilliseconds: [...metrics.latency.boundsMilliseconds],
+                        counts: [...metrics.latency.counts]
+                    }
+                }
+            }
+            return snapshot
+        },
+        reset: (now = Date.now()) => {
+            since = now
+            policies = new Map()
+            inMemoryFallbacks = {rootDocument: 0, secureScript: 0}
+        }
+    }
+}
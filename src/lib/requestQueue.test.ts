@@ -0,0 +1,192 @@
+import {expect, it, describe} from "vitest"
+import {createRequestQueue, QueueStore, QueuedRequest} from "./requestQueue"
+import {
+    serviceWorkerQueuedRequestHeader as queuedRequestHeader,
+    QueuedRequestStatus
+} from "./serviceWorkerMeta"
+
+class MockQueueStore implements QueueStore {
+    readonly entries = [] as QueuedRequest[]
+    private idCount = 0
+
+    async add(entry: Omit<QueuedRequest, "id">) {
+        const id = ++this.idCount
+        this.entries.push({id, ...entry})
+        return id
+    }
+
+    async all() {
+        return [...this.entries]
+    }
+
+    async count(clientId: string) {
+        return this.entries.filter((entry) => entry.clientId === clientId).length
+    }
+
+    async remove(id: number) {
+        const index = this.entries.findIndex((entry) => entry.id === id)
+        if (index > -1) {
+            this.entries.splice(index, 1)
+        }
+    }
+}
+
+const createNetwork = () => {
+    const state = {online: false, requests: [] as Array<{url: string, body: string}>}
+    const networkFetch: typeof fetch = async (input) => {
+        if (!state.online) {
+            throw new Error("network error")
+        }
+        const request = input as Request
+        state.requests.push({url: request.url, body: await request.text()})
+        return new Response("", {status: 201})
+    }
+    return {state, networkFetch} as const
+}
+
+const post = (url: string, body: string) => new Request(url, {method: "POST", body})
+
+describe("offline request queue", () => {
+    it("enqueued request should be persisted and recieve 202 response", async () => {
+        const store = new MockQueueStore()
+        const statuses = [] as QueuedRequestStatus[]
+        const {networkFetch} = createNetwork()
+        const queue = createRequestQueue({
+            store, 
+            networkFetch, 
+            onStatus: (status) => statuses.push(status)
+        })
+        const res = await queue.enqueue(post("https://cookies.com/save", "data"), "client")
+        expect(res.status).toBe(202)
+        expect(res.headers.get(queuedRequestHeader)).toBe("1")
+        expect(store.entries.length).toBe(1)
+        expect(store.entries[0].method).toBe("POST")
+        expect(new TextDecoder().decode(store.entries[0].body!)).toBe("data")
+        expect(statuses).toStrictEqual([{
+            id: 1, 
+            url: "https://cookies.com/save", 
+            method: "POST", 
+            state: "queued", 
+            status: null
+        }])
+        expect(await queue.hasPending("client")).toBe(true)
+        expect(await queue.hasPending("other-client")).toBe(false)
+    })
+
+    it("replay should send queued requests in order once network is available", async () => {
+        const store = new MockQueueStore()
+        const statuses = [] as QueuedRequestStatus[]
+        const {state, networkFetch} = createNetwork()
+        const queue = createRequestQueue({
+            store, 
+            networkFetch, 
+            onStatus: (status) => statuses.push(status)
+        })
+        await queue.enqueue(post("https://cookies.com/1", "a"), "client")
+        await queue.enqueue(post("https://cookies.com/2", "b"), "client")
+        expect(await queue.replay()).toBe(0)
+        expect(store.entries.length).toBe(2)
+        state.online = true
+        expect(await queue.replay()).toBe(2)
+        expect(state.requests).toStrictEqual([
+            {url: "https://cookies.com/1", body: "a"},
+            {url: "https://cookies.com/2", body: "b"},
+        ])
+        expect(store.entries.length).toBe(0)
+        const replayed = statuses.filter((status) => status.state === "replayed")
+        expect(replayed.map((status) => status.status)).toStrictEqual([201, 201])
+    })
+
+    it("requests should be replayed with fetch of the client that queued them", async () => {
+        const store = new MockQueueStore()
+        const {state, networkFetch} = createNetwork()
+        const deniedFetch: typeof fetch = async () => new Response("", {status: 403})
+        const statuses = [] as QueuedRequestStatus[]
+        const queue = createRequestQueue({
+            store, 
+            networkFetch,
+            networkFetchFor: (clientId) => clientId === "denied" ? deniedFetch : networkFetch,
+            onStatus: (status) => statuses.push(status)
+        })
+        await queue.enqueue(post("https://cookies.com/1", "a"), "denied")
+        await queue.enqueue(post("https://cookies.com/2", "b"), "client")
+        state.online = true
+        expect(await queue.replay()).toBe(2)
+        expect(state.requests).toStrictEqual([{url: "https://cookies.com/2", body: "b"}])
+        const replayed = statuses.filter((status) => status.state === "replayed")
+        expect(replayed.map((status) => status.status)).toStrictEqual([403, 201])
+    })
+
+    it("requests that fail to replay should only hold back requests of the same client", async () => {
+        const store = new MockQueueStore()
+        const {state, networkFetch} = createNetwork()
+        const stuckFetch: typeof fetch = async (input) => {
+            if ((input as Request).url === "https://cookies.com/stuck") {
+                throw new Error("network error")
+            }
+            return networkFetch(input)
+        }
+        const queue = createRequestQueue({store, networkFetch: stuckFetch})
+        await queue.enqueue(post("https://cookies.com/stuck", "a"), "stuck")
+        await queue.enqueue(post("https://cookies.com/1", "b"), "stuck")
+        await queue.enqueue(post("https://cookies.com/2", "c"), "client")
+        state.online = true
+        expect(await queue.replay()).toBe(1)
+        expect(state.requests).toStrictEqual([{url: "https://cookies.com/2", body: "c"}])
+        expect(store.entries.map((entry) => entry.url)).toStrictEqual([
+            "https://cookies.com/stuck",
+            "https://cookies.com/1",
+        ])
+    })
+
+    it("concurrent replays should share the same replay", async () => {
+        const store = new MockQueueStore()
+        const {state, networkFetch} = createNetwork()
+        const queue = createRequestQueue({store, networkFetch})
+        await queue.enqueue(post("https://cookies.com/1", "a"), "client")
+        state.online = true
+        const [first, second] = await Promise.all([queue.replay(), queue.replay()])
+        expect(first).toBe(1)
+        expect(second).toBe(1)
+        expect(state.requests.length).toBe(1)
+    })
+
+    it("replays of a client should only send requests of that client", async () => {
+        const store = new MockQueueStore()
+        const {state, networkFetch} = createNetwork()
+        const queue = createRequestQueue({store, networkFetch})
+        await queue.enqueue(post("https://cookies.com/1", "a"), "client")
+        await queue.enqueue(post("https://cookies.com/2", "b"), "other-client")
+        state.online = true
+        expect(await queue.replay("client")).toBe(1)
+        expect(state.requests).toStrictEqual([{url: "https://cookies.com/1", body: "a"}])
+        expect(await queue.hasPending("other-client")).toBe(true)
+    })
+
+    it("requests queued during a replay should be replayed by it", async () => {
+        const store = new MockQueueStore()
+        const {state, networkFetch} = createNetwork()
+        let release = () => {}
+        const blocked = new Promise<void>((resolve) => { release = resolve })
+        const slowFetch: typeof fetch = async (input) => {
+            await blocked
+            return networkFetch(input)
+        }
+        const queue = createRequestQueue({store, networkFetch: slowFetch})
+        await queue.enqueue(post("https://cookies.com/1", "a"), "client")
+        state.online = true
+        const replay = queue.replay("client")
+        // first pass has already read store
+        await new Promise((resolve) => setTimeout(resolve, 0))
+        await queue.enqueue(post("https://cookies.com/2", "b"), "client")
+        const joined = queue.replay("client")
+        release()
+        expect(await replay).toBe(2)
+        expect(await joined).toBe(2)
+        expect(state.requests.map(({url}) => url)).toStrictEqual([
+            "https://cookies.com/1",
+            "https://cookies.com/2",
+        ])
+        expect(store.entries.length).toBe(0)
+    })
+})
@@ -0,0 +1,162 @@
+import {
+    serviceWorkerQueuedRequestHeader as queuedRequestHeader,
+    QueuedRequestStatus
+} from "./serviceWorkerMeta"
+
+export type QueuedRequest = {
+    id: number
+    url: string
+    method: string
+    headers: Array<[string, string]>
+    body: ArrayBuffer | null
+    clientId: string
+    queuedAt: number
+}
+
+export type QueueStore = {
+    add: (entry: Omit<QueuedRequest, "id">) => Promise<number>
+    /** must return entries in the order they were added */
+    all: () => Promise<QueuedRequest[]>
+    /** number of entries queued by client */
+    count: (clientId: string) => Promise<number>
+    remove: (id: number) => Promise<unknown>
+}
+
+export type RequestQueueOptions = {
+    store: QueueStore
+    networkFetch: typeof fetch
+    /** 
+     * fetch used to replay requests of a client, so that
+     * replays are subject to the same checks as the original 
+     * request. Defaults to networkFetch
+     */
+    networkFetchFor?: (clientId: string) => typeof fetch
+    onStatus?: (status: QueuedRequestStatus, clientId: string) => unknown
+}
+
+const requestStatus = (
+    entry: Pick<QueuedRequest, "id" | "url" | "method">,
+    state: QueuedRequestStatus["state"],
+    status: number | null = null
+): QueuedRequestStatus => {
+    const {id, url, method} = entry
+    return {id, url, method, state, status}
+}
+
+export const createRequestQueue = (options: RequestQueueOptions) => {
+    const {
+        store, 
+        networkFetch, 
+        networkFetchFor = () => networkFetch,
+        onStatus = () => {}
+    } = options
+    // replays in flight per client, and clients that queued or
+    // asked for a replay after their replay read the store
+    const replaying = new Map<string, Promise<number>>()
+    const stale = new Set<string>()
+
+    const replayClient = async (entries: QueuedRequest[]) => {
+        let replayed = 0
+        for (const entry of entries) {
+            const request = new Request(entry.url, {
+                method: entry.method,
+                headers: entry.headers,
+                body: entry.body
+            })
+            let response: Response
+            try {
+                response = await networkFetchFor(entry.clientId)(request)
+            } catch {
+                // still offline, keep client's remaining 
+                // requests queued so that order is preserved
+                return replayed
+            }
+            await store.remove(entry.id)
+            replayed++
+            await onStatus(
+                requestStatus(entry, "replayed", response.status), 
+                entry.clientId
+            )
+        }
+        return replayed
+    }
+
+    const clientEntries = async (clientId: string) => {
+        const entries = await store.all()
+        return entries.filter((entry) => entry.clientId === clientId)
+    }
+
+    /** 
+     * one replay runs per client at a time, which runs 
+     * another pass if requests were queued during it
+     */
+    const replayQueueOf = (clientId: string) => {
+        const inFlight = replaying.get(clientId)
+        if (inFlight) {
+            stale.add(clientId)
+            return inFlight
+        }
+        const replay = (async () => {
+            let replayed = 0
+            do {
+                stale.delete(clientId)
+                replayed += await replayClient(await clientEntries(clientId))
+            } while (stale.has(clientId))
+            return replayed
+        })().finally(() => replaying.delete(clientId))
+        replaying.set(clientId, replay)
+        return replay
+    }
+
+    /** 
+     * requests are ordered per client, clients are replayed
+     * concurrently so that a stuck request only holds back
+     * requests of the client that queued it
+     */
+    const replayAll = async () => {
+        const clientIds = new Set((await store.all()).map((entry) => entry.clientId))
+        const replayed = await Promise.all([...clientIds].map(replayQueueOf))
+        return replayed.reduce((total, count) => total + count, 0)
+    }
+
+    return {
+        enqueue: async (request: Request, clientId: string) => {
+            const body = request.method === "GET" || request.method === "HEAD"
+                ? null
+                : await request.arrayBuffer()
+            const headers: QueuedRequest["headers"] = []
+            request.headers.forEach((value, key) => headers.push([key, value]))
+            const entry = {
+                url: request.url,
+                method: request.method,
+                headers,
+                body,
+                clientId,
+                queuedAt: Date.now()
+            }
+            const id = await store.add(entry)
+            if (replaying.has(clientId)) {
+                stale.add(clientId)
+            }
+            await onStatus(requestStatus({id, ...entry}, "queued"), clientId)
+            return new Response(JSON.stringify({queued: true, id}), {
+                status: 202,
+                statusText: "ACCEPTED",
+                headers: {
+                    "content-type": "application/json",
+                    [queuedRequestHeader]: id.toString()
+                }
+            })
+        },
+        hasPending: async (clientId: string) => (await store.count(clientId)) > 0,
+        /** 
+         * replays requests of client, or of every client if not 
+         * specified. Resolves to the number of requests that were replayed
+         */
+        replay: (clientId?: string) => {
+            return clientId === undefined ? replayAll() : replayQueueOf(clientId)
+        }
+    } as const
+}
+
+export type RequestQueue = ReturnType<typeof createRequestQueue>
@@ -7,23 +7,57 @@ export const serviceWorkerErrorCatchHeader = "Sw-Net-Err"
 
 export const serviceWorkerPolicyHeader = "Sw-Policy"
 
+export const serviceWorkerNetworkTimeoutHeader = "Sw-Network-Timeout"
+
+export const serviceWorkerTimeoutFallbackHeader = {
+    key: "Sw-Timeout-Fallback",
+    value: "1"
+} as const
+
+export const DEFAULT_NETWORK_TIMEOUT_MILLISECONDS = 5_000
+
+export const serviceWorkerQueuedRequestHeader = "Sw-Queued-Request"
+
 export const NETWORK_FIRST_POLICY = 1
 export const NETWORK_ONLY_POLICY = 2
 export const CACHE_FIRST_POLICY = 3
 export const CACHE_ONLY_POLICY = 4
+export const STALE_WHILE_REVALIDATE_POLICY = 5
+export const NETWORK_FIRST_TIMEOUT_POLICY = 6
+export const NETWORK_ONLY_QUEUE_POLICY = 7
 
 export type ServiceWorkerPolicy = (
     typeof NETWORK_FIRST_POLICY
     | typeof NETWORK_ONLY_POLICY
     | typeof CACHE_FIRST_POLICY
     | typeof CACHE_ONLY_POLICY
+    | typeof STALE_WHILE_REVALIDATE_POLICY
+    | typeof NETWORK_FIRST_TIMEOUT_POLICY
+    | typeof NETWORK_ONLY_QUEUE_POLICY
 )
 
+const validPolicies: ReadonlySet<unknown> = new Set([
+    NETWORK_FIRST_POLICY,
+    NETWORK_ONLY_POLICY,
+    CACHE_FIRST_POLICY,
+    CACHE_ONLY_POLICY,
+    STALE_WHILE_REVALIDATE_POLICY,
+    NETWORK_FIRST_TIMEOUT_POLICY,
+    NETWORK_ONLY_QUEUE_POLICY,
+])
+
+export const isServiceWorkerPolicy = (policy: unknown): policy is ServiceWorkerPolicy => {
+    return validPolicies.has(policy)
+}
+
 export const serviceWorkerPolicies = {
     networkOnly: {"Sw-Policy": NETWORK_ONLY_POLICY.toString()},
     networkFirst: {"Sw-Policy": NETWORK_FIRST_POLICY.toString()},
     cacheFirst: {"Sw-Policy": CACHE_FIRST_POLICY.toString()},
     cacheOnly: {"Sw-Policy": CACHE_ONLY_POLICY.toString()},
+    staleWhileRevalidate: {"Sw-Policy": STALE_WHILE_REVALIDATE_POLICY.toString()},
+    networkFirstTimeout: {"Sw-Policy": NETWORK_FIRST_TIMEOUT_POLICY.toString()},
+    networkOnlyQueue: {"Sw-Policy": NETWORK_ONLY_QUEUE_POLICY.toString()},
 } as const
 
 export const cacheHit = (response: Response) => {
@@ -34,28 +68,230 @@ export const cacheHit = (response: Response) => {
     return response
 }
 
-export const NOT_FOUND_RESPONSE = new Response("not found", {
-    status: 404, 
-    statusText: "NOT FOUND"
-})
+export const isCacheHit = (response: Response) => {
+    return (
+        response.headers.get(serviceWorkerCacheHitHeader.key) 
+        === serviceWorkerCacheHitHeader.value
+    )
+}
+
+export const timeoutFallback = (response: Response) => {
+    response.headers.append(
+        serviceWorkerTimeoutFallbackHeader.key,
+        serviceWorkerTimeoutFallbackHeader.value
+    )
+    return cacheHit(response)
+}
+
+export const serviceWorkerErrorCodeHeader = "Sw-Error-Code"
+
+export const serviceWorkerErrorStageHeader = "Sw-Error-Stage"
+
+export const NETWORK_ERROR = "network-error"
+export const NETWORK_TIMEOUT = "network-timeout"
+export const CACHE_MISS = "cache-miss"
+export const TEMPLATE_PARAMETER_ERROR = "template-parameter-error"
+export const NOT_FOUND = "not-found"
+export const NETWORK_PERMISSION_DENIED = "network-permission-denied"
+export const LAUNCH_TOKEN_INVALID = "launch-token-invalid"
+export const INTEGRITY_MISMATCH = "integrity-mismatch"
+export const PROGRAM_SESSION_MISSING = "program-session-missing"
+export const MIDDLEWARE_ERROR = "middleware-error"
+
+export type ServiceWorkerErrorCode = (
+    typeof NETWORK_ERROR
+    | typeof NETWORK_TIMEOUT
+    | typeof CACHE_MISS
+    | typeof TEMPLATE_PARAMETER_ERROR
+    | typeof NOT_FOUND
+    | typeof NETWORK_PERMISSION_DENIED
+    | typeof LAUNCH_TOKEN_INVALID
+    | typeof INTEGRITY_MISMATCH
+    | typeof PROGRAM_SESSION_MISSING
+    | typeof MIDDLEWARE_ERROR
+)
+
+export type ServiceWorkerErrorStage = (
+    "network"
+    | "client-cache"
+    | "template"
+    | "sandbox-origin"
+    | "integrity"
+    | "session"
+    | "middleware"
+)
+
+export type ErrorContext = {
+    code: ServiceWorkerErrorCode
+    stage: ServiceWorkerErrorStage
+    /** policy that was applied, null if not applicable */
+    policy: ServiceWorkerPolicy | null
+    url: string
+}
+
+/**
+ * Error body in the problem details format (RFC 7807),
+ * served with "application/problem+json" content type.
+ */
+export type ProblemDetails = ErrorContext & {
+    type: string
+    title: string
+    status: number
+    detail: string
+}
 
-export const errorResponse = (err: unknown) => new Response(
-    String(err), {
-    status: 500,
-    statusText: "INTERNAL SERVER ERROR",
-    headers: {[serviceWorkerErrorCatchHeader]: "1"}
-})
+const errorStatuses = {
+    [NETWORK_ERROR]: {
+        status: 500, 
+        statusText: "INTERNAL SERVER ERROR", 
+        title: "Network request failed"
+    },
+    [NETWORK_TIMEOUT]: {
+        status: 500, 
+        statusText: "INTERNAL SERVER ERROR", 
+        title: "Network request timed out"
+    },
+    [CACHE_MISS]: {
+        status: 404, 
+        statusText: "NOT FOUND", 
+        title: "File not found in client cache"
+    },
+    [TEMPLATE_PARAMETER_ERROR]: {
+        status: 500, 
+        statusText: "INTERNAL SERVER ERROR", 
+        title: "Invalid template parameters"
+    },
+    [NOT_FOUND]: {
+        status: 404, 
+        statusText: "NOT FOUND", 
+        title: "Resource does not exist on sandbox origin"
+    },
+    [NETWORK_PERMISSION_DENIED]: {
+        status: 403, 
+        statusText: "FORBIDDEN", 
+        title: "Program is not permitted to make network request"
+    },
+    [LAUNCH_TOKEN_INVALID]: {
+        status: 403, 
+        statusText: "FORBIDDEN", 
+        title: "Program launch token is missing or invalid"
+    },
+    [INTEGRITY_MISMATCH]: {
+        status: 502, 
+        statusText: "BAD GATEWAY", 
+        title: "File digest does not match expected integrity"
+    },
+    [PROGRAM_SESSION_MISSING]: {
+        status: 403, 
+        statusText: "FORBIDDEN", 
+        title: "Program has no session, it must be relaunched"
+    },
+    [MIDDLEWARE_ERROR]: {
+        status: 500, 
+        statusText: "INTERNAL SERVER ERROR", 
+        title: "Fetch middleware threw an error"
+    },
+} as const satisfies Record<
+    ServiceWorkerErrorCode, 
+    {status: number, statusText: string, title: string}
+>
 
-export type LogFn = (...msgs: any[]) => void
+export const errorResponse = (err: unknown, context: ErrorContext) => {
+    const {status, statusText, title} = errorStatuses[context.code]
+    const problem: ProblemDetails = {
+        type: `urn:zakhaarif-sandbox:error:${context.code}`,
+        title,
+        status,
+        detail: String(err),
+        ...context
+    }
+    const headers: Record<string, string> = {
+        "content-type": "application/problem+json",
+        [serviceWorkerErrorCodeHeader]: context.code,
+        [serviceWorkerErrorStageHeader]: context.stage,
+    }
+    if (status >= 500) {
+        headers[serviceWorkerErrorCatchHeader] = "1"
+    }
+    return new Response(JSON.stringify(problem), {
+        status,
+        statusText,
+        headers
+    })
+}
+
+export type StaleFileNotice = {
+    url: string
+    status: number
+    etag: string | null
+    lastModified: string | null
+}
+
+export type NetworkDenial = {
+    url: string
+    method: string
+    reason: string
+}
+
+export type QueuedRequestStatus = {
+    id: number
+    url: string
+    method: string
+    state: "queued" | "replayed"
+    /** http status of replayed request */
+    status: number | null
+}
+
+export type LogLevel = "debug" | "info" | "warn" | "error"
+
+/** structured form of a request log */
+export type RequestLogRecord = {
+    level: LogLevel
+    tag: string
+    url: string
+    method: string
+    /** policy that was applied, null if not applicable */
+    policy: ServiceWorkerPolicy | null
+    cacheHit: boolean
+    cacheStatus: number | null
+    mode: string
+    destination: string
+    /** id of client that made request, empty if unknown */
+    clientId: string
+    /** milliseconds since unix epoch */
+    timestamp: number
+}
+
+export type LogFn = (message: string, record: RequestLogRecord) => void
+
+export const formatLogRecord = (record: RequestLogRecord) => {
+    return `incoming request (${record.tag}): url=${record.url}, cache_hit=${record.cacheHit}, cache_status=${record.cacheStatus || "none"}, mode=${record.mode}, destination=${record.destination}`
+}
 
 export const logRequest = (
     tag: string,
     request: Request,
     logFn: LogFn,
     shouldLog: boolean,
-    cached: Response | null
+    cached: Response | null,
+    policy: ServiceWorkerPolicy | null = null,
+    clientId = ""
 ) => {
-    if (shouldLog) {
-        logFn(`incoming request (${tag}): url=${request.url}, cache_hit=${!!cached}, cache_status=${cached?.status || "none"}, mode=${request.mode}, destination=${request.destination}`)
+    if (!shouldLog) {
+        return
+    }
+    const record: RequestLogRecord = {
+        level: "info",
+        tag,
+        url: request.url,
+        method: request.method,
+        policy,
+        cacheHit: !!cached,
+        cacheStatus: cached?.status || null,
+        mode: request.mode,
+        destination: request.destination,
+        clientId,
+        timestamp: Date.now()
     }
+    logFn(formatLogRecord(record), record)
 }
@@ -0,0 +1,155 @@
+import {expect, it, describe} from "vitest"
+import {
+    parseIntegrityMetadata,
+    parseIntegrityManifest,
+    matchesIntegrity,
+    verifyIntegrity,
+    streamIntegrity,
+    shouldBufferIntegrity,
+    MAX_BUFFERED_INTEGRITY_BYTES
+} from "./subresourceIntegrity"
+import {
+    INTEGRITY_MISMATCH,
+    serviceWorkerErrorCodeHeader as errorCodeHeader
+} from "./serviceWorkerMeta"
+
+const integrityOf = async (algorithm: "SHA-256" | "SHA-384", text: string) => {
+    const digest = new Uint8Array(
+        await crypto.subtle.digest(algorithm, new TextEncoder().encode(text))
+    )
+    const prefix = algorithm === "SHA-256" ? "sha256" : "sha384"
+    return `${prefix}-${btoa(String.fromCharCode(...digest))}`
+}
+
+const bytes = (text: string) => new TextEncoder().encode(text).buffer
+
+describe("integrity metadata parsing", () => {
+    it("should parse multiple hashes and ignore options", () => {
+        const hashes = parseIntegrityMetadata("sha256-abc= SHA384-def?ct=text/javascript")
+        expect(hashes).toStrictEqual([
+            {algorithm: "sha256", digest: "abc="},
+            {algorithm: "sha384", digest: "def"},
+        ])
+    })
+
+    it("should throw if metadata is empty, uses unsupported algorithms or is not base64", () => {
+        expect(() => parseIntegrityMetadata("")).toThrow()
+        expect(() => parseIntegrityMetadata("md5-abc")).toThrow()
+        expect(() => parseIntegrityMetadata("sha256")).toThrow()
+        expect(() => parseIntegrityMetadata("sha256-a\"b")).toThrow()
+    })
+
+    it("manifest urls should be normalized and malformed manifests should throw", () => {
+        const manifest = parseIntegrityManifest(JSON.stringify({
+            "https://cookies.com/./index.js": "sha256-abc="
+        }))
+        expect(manifest).toStrictEqual({"https://cookies.com/index.js": "sha256-abc="})
+        expect(() => parseIntegrityManifest("[]")).toThrow()
+        expect(() => parseIntegrityManifest(JSON.stringify({"index.js": "sha256-abc="}))).toThrow()
+        expect(() => parseIntegrityManifest(JSON.stringify({"https://cookies.com/": 1}))).toThrow()
+    })
+})
+
+describe("integrity verification", () => {
+    it("body should match if digest of strongest algorithm matches", async () => {
+        const body = "console.log('hi')"
+        const sha256 = await integrityOf("SHA-256", body)
+        const sha384 = await integrityOf("SHA-384", body)
+        expect(await matchesIntegrity(bytes(body), sha256)).toBe(true)
+        expect(await matchesIntegrity(bytes(body), sha384)).toBe(true)
+        expect(await matchesIntegrity(bytes(body), `${sha256} ${sha384}`)).toBe(true)
+        expect(await matchesIntegrity(bytes("tampered"), sha384)).toBe(false)
+        // weaker hashes are ignored if a stronger one is present
+        const wrong384 = await integrityOf("SHA-384", "other")
+        expect(await matchesIntegrity(bytes(body), `${sha256} ${wrong384}`)).toBe(false)
+    })
+
+    it("mismatched responses should be refused with integrity mismatch error", async () => {
+        const url = "https://cookies.com/index.js"
+        const integrity = await integrityOf("SHA-256", "original")
+        const ok = await verifyIntegrity(url, new Response("original", {status: 200}), integrity)
+        expect(ok.status).toBe(200)
+        expect(await ok.text()).toBe("original")
+
+        const refused = await verifyIntegrity(url, new Response("tampered", {status: 200}), integrity)
+        expect(refused.status).toBe(502)
+        expect(refused.headers.get(errorCodeHeader)).toBe(INTEGRITY_MISMATCH)
+    })
+
+    it("non 2xx responses should be returned as is", async () => {
+        const url = "https://cookies.com/index.js"
+        const integrity = await integrityOf("SHA-256", "original")
+        const notFound = new Response("not found", {status: 404})
+        expect(await verifyIntegrity(url, notFound, integrity)).toBe(notFound)
+        expect(streamIntegrity(url, notFound, integrity)).toBe(notFound)
+    })
+
+    it("all 2xx and opaque responses should be verified", async () => {
+        const url = "https://cookies.com/index.js"
+        const integrity = await integrityOf("SHA-256", "original")
+        const created = await verifyIntegrity(url, new Response("tampered", {status: 201}), integrity)
+        expect(created.headers.get(errorCodeHeader)).toBe(INTEGRITY_MISMATCH)
+        const partial = streamIntegrity(url, new Response("tampered", {status: 206}), integrity)
+        await expect(partial.text()).rejects.toThrow()
+
+        let mismatches = 0
+        const onMismatch = () => mismatches++
+        // network errors and opaque responses have status 0
+        const opaque = await verifyIntegrity(url, Response.error(), integrity)
+        expect(opaque.headers.get(errorCodeHeader)).toBe(INTEGRITY_MISMATCH)
+        const streamedOpaque = streamIntegrity(url, Response.error(), integrity, onMismatch)
+        expect(streamedOpaque.headers.get(errorCodeHeader)).toBe(INTEGRITY_MISMATCH)
+        const empty = streamIntegrity(url, new Response(null, {status: 204}), integrity, onMismatch)
+        expect(empty.headers.get(errorCodeHeader)).toBe(INTEGRITY_MISMATCH)
+        expect(mismatches).toBe(2)
+    })
+
+    it("streamed bodies should pass through if digest matches and error if not", async () => {
+        const url = "https://cookies.com/index.js"
+        const integrity = await integrityOf("SHA-384", "original")
+        const ok = streamIntegrity(url, new Response("original", {status: 200}), integrity)
+        expect(await ok.text()).toBe("original")
+
+        let mismatches = 0
+        const tampered = streamIntegrity(
+            url, 
+            new Response("tampered", {status: 200}), 
+            integrity,
+            () => mismatches++
+        )
+        await expect(tampered.text()).rejects.toThrow()
+        expect(mismatches).toBe(1)
+    })
+
+    it("bodies streamed in many chunks should be hashed as a whole", async () => {
+        const url = "https://cookies.com/index.js"
+        const text = "cookies ".repeat(10_000)
+        const encoded = new TextEncoder().encode(text)
+        const chunked = () => new ReadableStream<Uint8Array>({
+            start: (controller) => {
+                for (let offset = 0; offset < encoded.length; offset += 1_000) {
+                    controller.enqueue(encoded.slice(offset, offset + 1_000))
+                }
+                controller.close()
+            }
+        })
+        for (const algorithm of ["SHA-256", "SHA-384"] as const) {
+            const integrity = await integrityOf(algorithm, text)
+            const res = streamIntegrity(url, new Response(chunked(), {status: 200}), integrity)
+            expect(await res.text()).toBe(text)
+        }
+    })
+
+    it("ranged requests and small files should be buffered", () => {
+        const url = "https://cookies.com/video.mp4"
+        const sized = (bytes: number) => new Response("", {
+            status: 200, 
+            headers: {"content-length": bytes.toString()}
+        })
+        const ranged = new Request(url, {headers: {range: "bytes=0-1"}})
+        expect(shouldBufferIntegrity(ranged, sized(MAX_BUFFERED_INTEGRITY_BYTES + 1))).toBe(true)
+        expect(shouldBufferIntegrity(new Request(url), sized(10))).toBe(true)
+        expect(shouldBufferIntegrity(new Request(url), sized(MAX_BUFFERED_INTEGRITY_BYTES + 1))).toBe(false)
+        expect(shouldBufferIntegrity(new Request(url), new Response(""))).toBe(false)
+    })
+})
@@ -0,0 +1,235 @@
+import {sha256, sha384} from "@noble/hashes/sha2"
+import {errorResponse, INTEGRITY_MISMATCH} from "./serviceWorkerMeta"
+
+/**
+ * Absolute file urls mapped to integrity metadata in
+ * the subresource integrity format, e.g. "sha384-<base64 digest>".
+ * Multiple space separated hashes are allowed per file.
+ */
+export type IntegrityManifest = Record<string, string>
+
+export type IntegrityHash = {
+    algorithm: IntegrityAlgorithm
+    digest: string
+}
+
+// web crypto can only digest whole buffers, so streamed
+// bodies are hashed chunk by chunk with "incremental"
+const integrityAlgorithms = {
+    sha256: {name: "SHA-256", strength: 1, incremental: sha256},
+    sha384: {name: "SHA-384", strength: 2, incremental: sha384},
+} as const
+
+type IntegrityAlgorithm = keyof typeof integrityAlgorithms
+
+const isIntegrityAlgorithm = (algorithm: string): algorithm is IntegrityAlgorithm => {
+    return algorithm in integrityAlgorithms
+}
+
+/** throws if metadata has no hashes or uses unsupported algorithms */
+export const parseIntegrityMetadata = (metadata: string) => {
+    const hashes: IntegrityHash[] = []
+    const tokens = metadata.split(/\s+/).filter((token) => token.length > 0)
+    for (const token of tokens) {
+        // options ("?...") are allowed by the spec but unused
+        const [expression] = token.split("?")
+        const separator = expression.indexOf("-")
+        const algorithm = expression.slice(0, separator).toLowerCase()
+        const digest = expression.slice(separator + 1)
+        if (separator < 0 || !isIntegrityAlgorithm(algorithm)) {
+            throw new Error(`unsupported integrity hash "${token}", expected sha256 or sha384`)
+        }
+        if (!/^[A-Za-z0-9+/]+={0,2}$/.test(digest)) {
+            throw new Error(`integrity hash "${token}" is not base64 encoded`)
+        }
+        hashes.push({algorithm, digest})
+    }
+    if (hashes.length < 1) {
+        throw new Error("integrity metadata must have at least one hash")
+    }
+    return hashes
+}
+
+/**
+ * Parses a JSON encoded integrity manifest,
+ * throws if manifest is malformed.
+ */
+export const parseIntegrityManifest = (json: string): IntegrityManifest => {
+    const manifest = JSON.parse(json) as unknown
+    if (typeof manifest !== "object" || manifest === null || Array.isArray(manifest)) {
+        throw new Error("integrity manifest must be an object")
+    }
+    const normalized: IntegrityManifest = {}
+    for (const [url, metadata] of Object.entries(manifest)) {
+        if (typeof metadata !== "string") {
+            throw new Error(`integrity for "${url}" must be a string`)
+        }
+        parseIntegrityMetadata(metadata)
+        normalized[new URL(url).href] = metadata
+    }
+    return normalized
+}
+
+const encodeBase64 = (digest: Uint8Array) => {
+    let binary = ""
+    for (const byte of digest) {
+        binary += String.fromCharCode(byte)
+    }
+    return btoa(binary)
+}
+
+export const base64Digest = async (algorithm: IntegrityAlgorithm, body: ArrayBuffer) => {
+    return encodeBase64(new Uint8Array(
+        await crypto.subtle.digest(integrityAlgorithms[algorithm].name, body)
+    ))
+}
+
+/**
+ * Like browsers, only hashes of the strongest algorithm
+ * in metadata are checked, and body matches if any of
+ * them match.
+ */
+const strongestHashes = (metadata: string) => {
+    const hashes = parseIntegrityMetadata(metadata)
+    const strength = Math.max(...hashes.map(({algorithm}) => (
+        integrityAlgorithms[algorithm].strength
+    )))
+    return hashes.filter(({algorithm}) => (
+        integrityAlgorithms[algorithm].strength === strength
+    ))
+}
+
+export const matchesIntegrity = async (body: ArrayBuffer, metadata: string) => {
+    const strongest = strongestHashes(metadata)
+    const actual = await base64Digest(strongest[0].algorithm, body)
+    return strongest.some(({digest}) => digest === actual)
+}
+
+/** 
+ * bodies up to this size are buffered by default, so that
+ * mismatching files can be refused with an error response
+ */
+export const MAX_BUFFERED_INTEGRITY_BYTES = 1_024 * 1_024
+
+/**
+ * Whether body should be verified with verifyIntegrity,
+ * rather than streamed through streamIntegrity. 
+ * Partial content can only be served once the whole file
+ * has been verified, so ranged requests are always buffered.
+ */
+export const shouldBufferIntegrity = (request: Request, response: Response) => {
+    if (request.headers.has("range")) {
+        return true
+    }
+    const bytes = parseInt(response.headers.get("content-length") || "", 10)
+    return !isNaN(bytes) && bytes <= MAX_BUFFERED_INTEGRITY_BYTES
+}
+
+/** 
+ * Successful (2xx) and opaque responses are checked,
+ * other responses (e.g. 404s) are returned as is.
+ */
+const shouldVerify = (response: Response) => (
+    isOpaque(response) 
+    || (response.status >= 200 && response.status < 300)
+)
+
+// bodies of opaque responses cannot be read, so never match
+const isOpaque = (response: Response) => (
+    response.status === 0 || response.type.startsWith("opaque")
+)
+
+const integrityMismatch = (url: string, message: string) => {
+    return errorResponse(message, {
+        code: INTEGRITY_MISMATCH,
+        stage: "integrity",
+        policy: null,
+        url
+    })
+}
+
+const mismatchMessage = (url: string, metadata: string) => {
+    return `digest of ${url} does not match integrity "${metadata}"`
+}
+
+const opaqueMessage = (url: string, metadata: string) => {
+    return `body of ${url} is opaque and cannot be checked against integrity "${metadata}"`
+}
+
+/**
+ * Buffers and hashes body of successful (2xx) responses,
+ * returning an integrity mismatch error if digest doesn't
+ * match metadata or body cannot be read.
+ */
+export const verifyIntegrity = async (
+    url: string,
+    response: Response,
+    metadata: string
+) => {
+    if (!shouldVerify(response)) {
+        return response
+    }
+    if (isOpaque(response)) {
+        return integrityMismatch(url, opaqueMessage(url, metadata))
+    }
+    const body = await response.arrayBuffer()
+    if (!(await matchesIntegrity(body, metadata))) {
+        return integrityMismatch(url, mismatchMessage(url, metadata))
+    }
+    return new Response(body, {
+        status: response.status,
+        statusText: response.statusText,
+        headers: response.headers
+    })
+}
+
+/**
+ * Hashes body of successful (2xx) responses as it streams 
+ * through. Headers are sent before the digest is known, so 
+ * mismatching bodies are errored once fully read instead, 
+ * and programs never recieve the complete file. Opaque
+ * and empty responses are checked before headers are sent.
+ */
+export const streamIntegrity = (
+    url: string,
+    response: Response,
+    metadata: string,
+    onMismatch: () => unknown = () => {}
+) => {
+    if (!shouldVerify(response)) {
+        return response
+    }
+    if (isOpaque(response)) {
+        onMismatch()
+        return integrityMismatch(url, opaqueMessage(url, metadata))
+    }
+    const strongest = strongestHashes(metadata)
+    const digest = integrityAlgorithms[strongest[0].algorithm].incremental.create()
+    if (!response.body) {
+        const actual = encodeBase64(digest.digest())
+        if (strongest.some(({digest}) => digest === actual)) {
+            return response
+        }
+        onMismatch()
+        return integrityMismatch(url, mismatchMessage(url, metadata))
+    }
+    const verifier = new TransformStream<Uint8Array, Uint8Array>({
+        transform: (chunk, controller) => {
+            digest.update(chunk)
+            controller.enqueue(chunk)
+        },
+        flush: (controller) => {
+            const actual = encodeBase64(digest.digest())
+            if (strongest.some(({digest}) => digest === actual)) {
+                return
+            }
+            onMismatch()
+            controller.error(new Error(mismatchMessage(url, metadata)))
+        }
+    })
+    return new Response(response.body.pipeThrough(verifier), {
+        status: response.status,
+        statusText: response.statusText,
+        headers: response.headers
+    })
+}
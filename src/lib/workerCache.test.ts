@@ -0,0 +1,162 @@
+import {expect, it, describe} from "vitest"
+import {
+    createWorkerCache, 
+    ResponseStore, 
+    workerCacheSizeHeader, 
+    workerCacheKey
+} from "./workerCache"
+
+class MockStore implements ResponseStore {
+    readonly entries = new Map<string, Response>()
+
+    async match(url: string) {
+        return this.entries.get(url)?.clone()
+    }
+
+    async put(url: string, response: Response) {
+        this.entries.set(url, response)
+    }
+
+    async delete(url: string) {
+        return this.entries.delete(url)
+    }
+
+    async keys() {
+        return [...this.entries.keys()].map((url) => ({url}))
+    }
+}
+
+const scope = "https://cookies.com/index.js"
+
+const bytes = (length: number) => new Response(new Uint8Array(length), {status: 200})
+
+describe("worker cache", () => {
+    it("should return null if url is not cached", async () => {
+        const store = new MockStore()
+        const cache = createWorkerCache({openStore: async () => store, maxBytes: 100})
+        expect(await cache.get("https://cookies.com/index.js", scope)).toBe(null)
+    })
+
+    it("should return cached response with mutable headers after it is put in cache", async () => {
+        const store = new MockStore()
+        const cache = createWorkerCache({openStore: async () => store, maxBytes: 100})
+        const url = "https://cookies.com/index.js"
+        expect(await cache.put(url, scope, new Response("hello", {status: 200}))).toBe(true)
+        const res = await cache.get(url, scope)
+        expect(res).not.toBe(null)
+        expect(await res?.text()).toBe("hello")
+        expect(res?.headers.get(workerCacheSizeHeader)).toBe("5")
+        expect(() => res?.headers.append("x-cool", "1")).not.toThrow()
+    })
+
+    it("should not cache responses that are not 200 or are larger than max entry size", async () => {
+        const store = new MockStore()
+        const cache = createWorkerCache({
+            openStore: async () => store, 
+            maxBytes: 100,
+            maxEntryBytes: 10
+        })
+        expect(await cache.put("https://cookies.com/a.js", scope, new Response("", {status: 404}))).toBe(false)
+        expect(await cache.put("https://cookies.com/b.js", scope, bytes(11))).toBe(false)
+        expect(store.entries.size).toBe(0)
+    })
+
+    it("should only accept 200 responses with a known length up to max entry size", () => {
+        const cache = createWorkerCache({
+            openStore: async () => new MockStore(), 
+            maxBytes: 100,
+            maxEntryBytes: 10
+        })
+        const sized = (length: number, status = 200) => new Response("", {
+            status, 
+            headers: {"content-length": length.toString()}
+        })
+        expect(cache.accepts(sized(10))).toBe(true)
+        expect(cache.accepts(sized(11))).toBe(false)
+        expect(cache.accepts(sized(10, 404))).toBe(false)
+        expect(cache.accepts(bytes(10))).toBe(false)
+    })
+
+    it("entries of a previous cache should be validated once before they are returned", async () => {
+        const store = new MockStore()
+        const first = createWorkerCache({openStore: async () => store, maxBytes: 100})
+        await first.put("https://cookies.com/a.js", scope, bytes(10))
+        await first.put("https://cookies.com/b.js", scope, bytes(10))
+        let validations = 0
+        const validate = async () => {
+            validations++
+            return true
+        }
+        expect(await first.get("https://cookies.com/a.js", scope, validate)).not.toBe(null)
+        expect(validations).toBe(0)
+
+        const second = createWorkerCache({openStore: async () => store, maxBytes: 100})
+        expect(await second.get("https://cookies.com/a.js", scope, validate)).not.toBe(null)
+        expect(await second.get("https://cookies.com/a.js", scope, validate)).not.toBe(null)
+        expect(validations).toBe(1)
+        expect(await second.get("https://cookies.com/b.js", scope, async () => false)).toBe(null)
+        expect(store.entries.size).toBe(1)
+    })
+
+    it("should evict least recently used entries when max size is exceeded", async () => {
+        const store = new MockStore()
+        const cache = createWorkerCache({openStore: async () => store, maxBytes: 30})
+        await cache.put("https://cookies.com/a.js", scope, bytes(10))
+        await cache.put("https://cookies.com/b.js", scope, bytes(10))
+        await cache.put("https://cookies.com/c.js", scope, bytes(10))
+        // "a" is now most recently used
+        expect(await cache.get("https://cookies.com/a.js", scope)).not.toBe(null)
+        await cache.put("https://cookies.com/d.js", scope, bytes(10))
+        expect(await cache.get("https://cookies.com/b.js", scope)).toBe(null)
+        expect(await cache.get("https://cookies.com/a.js", scope)).not.toBe(null)
+        expect(await cache.get("https://cookies.com/c.js", scope)).not.toBe(null)
+        expect(await cache.get("https://cookies.com/d.js", scope)).not.toBe(null)
+        expect(store.entries.size).toBe(3)
+    })
+
+    it("should rebuild index from entries that already exist in store", async () => {
+        const store = new MockStore()
+        const first = createWorkerCache({openStore: async () => store, maxBytes: 20})
+        await first.put("https://cookies.com/a.js", scope, bytes(10))
+        await first.put("https://cookies.com/b.js", scope, bytes(10))
+        const second = createWorkerCache({openStore: async () => store, maxBytes: 20})
+        expect(await second.get("https://cookies.com/a.js", scope)).not.toBe(null)
+        await second.put("https://cookies.com/c.js", scope, bytes(10))
+        expect(await second.get("https://cookies.com/b.js", scope)).toBe(null)
+        expect(await second.get("https://cookies.com/a.js", scope)).not.toBe(null)
+    })
+
+    it("should clear specified urls or all urls if none are specified", async () => {
+        const store = new MockStore()
+        const cache = createWorkerCache({openStore: async () => store, maxBytes: 100})
+        await cache.put("https://cookies.com/a.js", scope, bytes(10))
+        await cache.put("https://cookies.com/b.js", scope, bytes(10))
+        await cache.put("https://cookies.com/c.js", scope, bytes(10))
+        await cache.clear(["https://cookies.com/a.js"])
+        expect(await cache.get("https://cookies.com/a.js", scope)).toBe(null)
+        expect(await cache.get("https://cookies.com/b.js", scope)).not.toBe(null)
+        await cache.clear()
+        expect(store.entries.size).toBe(0)
+    })
+
+    it("entries should not be shared between scopes", async () => {
+        const store = new MockStore()
+        const cache = createWorkerCache({openStore: async () => store, maxBytes: 100})
+        const url = "https://cookies.com/a.js"
+        await cache.put(url, "first", new Response("first", {status: 200}))
+        expect(await cache.get(url, "second")).toBe(null)
+        await cache.put(url, "second", new Response("second", {status: 200}))
+        expect(await (await cache.get(url, "first"))?.text()).toBe("first")
+        expect(await (await cache.get(url, "second"))?.text()).toBe("second")
+        expect(store.entries.has(workerCacheKey(url, "first"))).toBe(true)
+        await cache.clear([url], "first")
+        expect(await cache.get(url, "first")).toBe(null)
+        expect(await (await cache.get(url, "second"))?.text()).toBe("second")
+        await cache.put(url, "first", new Response("first", {status: 200}))
+        await cache.clear(undefined, "second")
+        expect(await cache.get(url, "second")).toBe(null)
+        expect(await cache.get(url, "first")).not.toBe(null)
+        await cache.clear([url])
+        expect(store.entries.size).toBe(0)
+    })
+})
@@ -0,0 +1,204 @@
+/**
+ * Subset of the Cache Storage "Cache" interface
+ * that the worker cache relies on.
+ */
+export type ResponseStore = {
+    match: (url: string) => Promise<Response | undefined>
+    put: (url: string, response: Response) => Promise<void>
+    delete: (url: string) => Promise<boolean>
+    keys: () => Promise<ReadonlyArray<{url: string}>>
+}
+
+/** 
+ * Resolves to true if a cached entry (only its headers 
+ * should be read) is still the current copy of file
+ */
+export type WorkerCacheValidator = (cached: Response) => Promise<boolean>
+
+/**
+ * Entries are keyed by url and scope (a client or program), 
+ * so that files are never shared between scopes.
+ * Entries outlive the worker, so ones that were stored
+ * by a previous worker are checked with validate the first 
+ * time they are read, and dropped if they are outdated.
+ */
+export type WorkerCache = {
+    get: (url: string, scope: string, validate?: WorkerCacheValidator) => Promise<Response | null>
+    put: (url: string, scope: string, response: Response) => Promise<boolean>
+    /** 
+     * whether response can be stored, without reading its body.
+     * Responses must be 200s with a known content length
+     */
+    accepts: (response: Response) => boolean
+    /** clears urls (all if not specified) of scope, or of every scope */
+    clear: (urls?: string[], scope?: string) => Promise<boolean>
+}
+
+export type WorkerCacheOptions = {
+    /**
+     * store is opened on every operation, so that
+     * the cache keeps working if the underlying
+     * store is deleted from under it (e.g. by deleteStorage)
+     */
+    openStore: () => Promise<ResponseStore>
+    maxBytes: number
+    maxEntryBytes?: number
+}
+
+export const workerCacheSizeHeader = "Sw-Cache-Size"
+
+const WORKER_CACHE_KEY_ORIGIN = "https://worker-cache.sandbox"
+
+/** url that an entry is stored under */
+export const workerCacheKey = (url: string, scope: string) => {
+    return `${WORKER_CACHE_KEY_ORIGIN}/${encodeURIComponent(scope)}?url=${encodeURIComponent(url)}`
+}
+
+const keyUrl = (key: string) => {
+    try {
+        return new URL(key).searchParams.get("url")
+    } catch {
+        return null
+    }
+}
+
+const keyScope = (key: string) => {
+    try {
+        return decodeURIComponent(new URL(key).pathname.slice(1))
+    } catch {
+        return null
+    }
+}
+
+export const createWorkerCache = (options: WorkerCacheOptions): WorkerCache => {
+    const {openStore, maxBytes, maxEntryBytes = maxBytes} = options
+    // map iteration order is insertion order, so
+    // least recently used entries are always first
+    const index = new Map<string, number>()
+    // entries stored or validated by this worker
+    const validated = new Set<string>()
+    let totalBytes = 0
+    let indexReady: Promise<void> | null = null
+
+    const unindex = (key: string) => {
+        totalBytes -= index.get(key) || 0
+        index.delete(key)
+    }
+
+    const removeFromIndex = (key: string) => {
+        unindex(key)
+        validated.delete(key)
+    }
+
+    const touch = (key: string, bytes: number) => {
+        unindex(key)
+        index.set(key, bytes)
+        totalBytes += bytes
+    }
+
+    const loadIndex = async () => {
+        const store = await openStore()
+        const keys = await store.keys()
+        for (const {url: key} of keys) {
+            // entries stored without a scope can never be read 
+            if (keyUrl(key) === null) {
+                await store.delete(key)
+                continue
+            }
+            const cached = await store.match(key)
+            const bytes = parseInt(cached?.headers.get(workerCacheSizeHeader) || "0", 10)
+            touch(key, isNaN(bytes) ? 0 : bytes)
+        }
+    }
+
+    const ensureIndex = () => {
+        if (!indexReady) {
+            indexReady = loadIndex().catch(() => {})
+        }
+        return indexReady
+    }
+
+    const contentLength = (response: Response) => {
+        return parseInt(response.headers.get("content-length") || "", 10)
+    }
+
+    const evict = async (store: ResponseStore) => {
+        while (totalBytes > maxBytes && index.size > 0) {
+            const [leastRecentlyUsed] = index.keys()
+            removeFromIndex(leastRecentlyUsed)
+            await store.delete(leastRecentlyUsed)
+        }
+    }
+
+    return {
+        get: async (url, scope, validate) => {
+            await ensureIndex()
+            const key = workerCacheKey(url, scope)
+            const bytes = index.get(key)
+            if (bytes === undefined) {
+                return null
+            }
+            const store = await openStore()
+            const cached = await store.match(key)
+            if (!cached) {
+                removeFromIndex(key)
+                return null
+            }
+            if (!validated.has(key) && validate) {
+                if (!(await validate(cached).catch(() => false))) {
+                    cached.body?.cancel().catch(() => {})
+                    removeFromIndex(key)
+                    await store.delete(key)
+                    return null
+                }
+                validated.add(key)
+            }
+            touch(key, bytes)
+            // responses from cache storage have immutable
+            // headers, copy so that callers can add headers
+            return new Response(cached.body, cached)
+        },
+        accepts: (response) => {
+            const bytes = contentLength(response)
+            return response.status === 200 && !isNaN(bytes) && bytes <= maxEntryBytes
+        },
+        put: async (url, scope, response) => {
+            // lengths are checked before buffering if known
+            if (response.status !== 200 || contentLength(response) > maxEntryBytes) {
+                return false
+            }
+            await ensureIndex()
+            const body = await response.arrayBuffer()
+            if (body.byteLength > maxEntryBytes) {
+                return false
+            }
+            const headers = new Headers(response.headers)
+            headers.set(workerCacheSizeHeader, body.byteLength.toString())
+            const key = workerCacheKey(url, scope)
+            const store = await openStore()
+            await store.put(key, new Response(body, {
+                status: response.status,
+                statusText: response.statusText,
+                headers
+            }))
+            touch(key, body.byteLength)
+            validated.add(key)
+            await evict(store)
+            return true
+        },
+        clear: async (urls, scope) => {
+            await ensureIndex()
+            const store = await openStore()
+            const cleared = urls ? new Set(urls) : null
+            const targets = [...index.keys()].filter((key) => (
+                (!cleared || cleared.has(keyUrl(key) || ""))
+                && (scope === undefined || keyScope(key) === scope)
+            ))
+            await Promise.all(targets.map((key) => {
+                removeFromIndex(key)
+                return store.delete(key)
+            }))
+            return true
+        }
+    }
+}
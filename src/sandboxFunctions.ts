@@ -1,5 +1,15 @@
 import {wRpc, MessagableEntity} from "w-worker-rpc"
 import type {DaemonRpcs} from "zakhaarif-dev-tools"
+import type {
+    StaleFileNotice, 
+    QueuedRequestStatus,
+    NetworkDenial,
+    RequestLogRecord
+} from "./lib/serviceWorkerMeta"
+import {createExtensionLifecycle, LifecycleReport} from "./lib/extensionLifecycle"
+import type {CrashReport} from "./lib/crashReporter"
+import type {ConsoleBatch} from "./lib/consoleBridge"
+import type {BootTimings} from "./lib/bootTimings"
 
 type WindowMessageEvent = {
     source: MessagableEntity
@@ -15,12 +25,39 @@ const window = self as unknown as {
     removeEventListener: (name: "message", handler: (event: WindowMessageEvent) => any) => unknown
 }
 
+export type SandboxDaemonRpcs = DaemonRpcs & {
+    staleFileDetected: (notice: StaleFileNotice) => boolean
+    queuedRequestStatus: (status: QueuedRequestStatus) => boolean
+    networkRequestDenied: (denial: NetworkDenial) => boolean
+    serviceWorkerLog: (record: RequestLogRecord) => boolean
+    extensionLifecycleChanged: (report: LifecycleReport) => boolean
+    extensionCrashed: (report: CrashReport) => boolean
+    consoleOutput: (batch: ConsoleBatch) => boolean
+    bootTimings: (timings: BootTimings) => boolean
+    /** whether file is in client cache, without transferring it */
+    hasFile: (url: string) => boolean
+}
+
 type ControllerRpcState = {
     authToken: string
 }
 
+export const extensionLifecycle = createExtensionLifecycle({
+    onReport: async (report) => {
+        try {
+            return await controllerRpc.execute("extensionLifecycleChanged", report)
+        } catch {
+            return false
+        }
+    }
+})
+
 const sandboxResponses = {
-    ping: () => 1
+    ping: () => 1,
+    exitExtension: (_: null) => extensionLifecycle.exit(),
+    suspendExtension: (_: null) => extensionLifecycle.suspend(),
+    resumeExtension: (_: null) => extensionLifecycle.resume(),
+    restartExtension: (_: null) => extensionLifecycle.restart(),
 }
 
 const {top, addEventListener, removeEventListener} = window
@@ -29,7 +66,7 @@ export type SandboxResponses = typeof sandboxResponses
 
 let callback: Parameters<typeof window["addEventListener"]>[1] = () => {}
 
-export const controllerRpc = new wRpc<DaemonRpcs, ControllerRpcState>({
+export const controllerRpc = new wRpc<SandboxDaemonRpcs, ControllerRpcState>({
     responses: sandboxResponses,
     messageTarget: {
         postMessage: (data, transferables) => {
@@ -58,6 +95,35 @@ export const serviceWorkerToSandboxRpc = {
             return file
         }
         return wRpc.transfer(file, [file.body])
+    },
+    notifyStaleFile: async (notice: StaleFileNotice) => {
+        try {
+            return await controllerRpc.execute("staleFileDetected", notice)
+        } catch {
+            // older app shells don't listen for stale files
+            return false
+        }
+    },
+    notifyQueuedRequest: async (status: QueuedRequestStatus) => {
+        try {
+            return await controllerRpc.execute("queuedRequestStatus", status)
+        } catch {
+            return false
+        }
+    },
+    notifyNetworkDenied: async (denial: NetworkDenial) => {
+        try {
+            return await controllerRpc.execute("networkRequestDenied", denial)
+        } catch {
+            return false
+        }
+    },
+    notifyLogRecord: async (record: RequestLogRecord) => {
+        try {
+            return await controllerRpc.execute("serviceWorkerLog", record)
+        } catch {
+            return false
+        }
     }
 } as const
 
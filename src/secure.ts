@@ -1,10 +1,48 @@
 import {wRpc} from "w-worker-rpc"
 import type {ServiceWorkerFunctions} from "./serviceWorkerFunctions"
-import {serviceWorkerToSandboxRpc, controllerRpc} from "./sandboxFunctions"
+import type {PolicyRoute} from "./lib/policyRoutes"
+import type {LogLevel} from "./lib/serviceWorkerMeta"
+import type {LogFilter} from "./lib/requestLog"
+import type {HarRecordingOptions} from "./lib/harRecorder"
+import {
+    serviceWorkerToSandboxRpc, 
+    controllerRpc, 
+    extensionLifecycle
+} from "./sandboxFunctions"
 import type {ExtensionModule, MainScriptArguments} from "zakhaarif-dev-tools"
 import {SERVICE_WORKER_FILE} from "./config"
+import {findMissingProgramFiles, ProgramManifest} from "./lib/programManifest"
+import {lifecycleHooks} from "./lib/extensionLifecycle"
+import {createCrashReporter, errorEventLocation} from "./lib/crashReporter"
+import {createConsoleBridge} from "./lib/consoleBridge"
+import {createBootTimer, MAX_BOOT_TIMINGS_WAIT_MILLISECONDS} from "./lib/bootTimings"
+import {
+    bootFailure,
+    importFailureCode,
+    BootFailure,
+    NO_SERVICE_WORKER,
+    WORKER_REGISTRATION_FAILED,
+    NESTED_EMBEDDING,
+    PROGRAM_FILES_MISSING,
+    MISSING_ENTRY,
+    MISSING_MAIN,
+    MAIN_THREW
+} from "./lib/bootFailures"
+
+/** 
+ * manifest is only present for programs launched 
+ * via a huzma manifest 
+ */
+type SandboxMainScriptArguments = MainScriptArguments & {
+    programManifest: ProgramManifest | null
+}
+
+const signalBootFailure = (failure: BootFailure) => {
+    return controllerRpc.execute("signalFatalError", failure)
+}
 
 if (window.top !== window.parent) {
+    signalBootFailure(bootFailure(NESTED_EMBEDDING, "second-level embedding is disallowed"))
     throw new Error("second-level embedding is disallowed")
 }
 
@@ -12,16 +50,50 @@ if (window.self === window.top) {
     throw new Error("document must be embedded in iframe")
 }
 
+const timer = createBootTimer()
+
+const createRootElement = () => {
+    const rootElement = document.createElement("div")
+    rootElement.setAttribute("id", "root")
+    document.body.appendChild(rootElement)
+    // session is removed by service worker once
+    // this client goes away
+    extensionLifecycle.setTeardown(() => {
+        rootElement.remove()
+    })
+    return rootElement
+}
+
+let bootTimingsSent = false
+const sendBootTimings = async () => {
+    if (bootTimingsSent) {
+        return
+    }
+    bootTimingsSent = true
+    try {
+        await controllerRpc.execute("bootTimings", timer.timings())
+    } catch {
+        // older app shells don't listen for timings
+    }
+}
+
 const main = async () => {
     if (!("serviceWorker" in navigator)) {
-        await controllerRpc.execute("signalFatalError", {details: "Service worker not supported"})
+        await signalBootFailure(bootFailure(NO_SERVICE_WORKER, "Service worker not supported"))
         throw new Error("sandbox requires service worker to function")
     }
 
-    const [registration] = await Promise.all([
+    const [registration] = await timer.measure("worker-ready", () => Promise.all([
         navigator.serviceWorker.ready,
         navigator.serviceWorker.register(SERVICE_WORKER_FILE)
-    ] as const)
+    ] as const)).catch(async (error) => {
+        await signalBootFailure(bootFailure(
+            WORKER_REGISTRATION_FAILED, 
+            "service worker could not be registered", 
+            error
+        ))
+        throw error
+    })
     const {active: sw} = registration
     const swRpc = new wRpc<ServiceWorkerFunctions>({
         responses: serviceWorkerToSandboxRpc,
@@ -38,14 +110,103 @@ const main = async () => {
         },
         state: {}
     })
+    // opt-in, app shell has to enable forwarding
+    const consoleBridge = createConsoleBridge(console, {
+        send: async (batch) => {
+            try {
+                await controllerRpc.execute("consoleOutput", batch)
+            } catch {
+                // older app shells don't listen for console output
+            }
+        }
+    })
+    controllerRpc.addResponses({
+        setConsoleForwarding: (enabled: boolean) => {
+            if (enabled) {
+                consoleBridge.enable()
+            } else {
+                consoleBridge.disable()
+            }
+            return true
+        },
+        setPolicyRoutes: (routes: PolicyRoute[]) => {
+            return swRpc.execute("setPolicyRoutes", routes)
+        },
+        clearWorkerCache: (urls: string[] | null) => {
+            return swRpc.execute("clearWorkerCache", urls)
+        },
+        setServiceWorkerLogging: (enabled: boolean) => {
+            return swRpc.execute("setLogging", enabled)
+        },
+        setServiceWorkerLogLevel: (level: LogLevel) => {
+            return swRpc.execute("setLogLevel", level)
+        },
+        setServiceWorkerLogFilter: (filter: LogFilter | null) => {
+            return swRpc.execute("setLogFilter", filter)
+        },
+        getServiceWorkerMetrics: () => {
+            return swRpc.execute("getRequestMetrics")
+        },
+        resetServiceWorkerMetrics: () => {
+            return swRpc.execute("resetRequestMetrics")
+        },
+        startHarRecording: (options: HarRecordingOptions) => {
+            return swRpc.execute("startHarRecording", options)
+        },
+        stopHarRecording: () => {
+            return swRpc.execute("stopHarRecording")
+        },
+        exportHarRecording: () => {
+            return swRpc.execute("exportHarRecording")
+        }
+    })
+    window.addEventListener("pagehide", () => {
+        // page can't wait for exit hook, it is
+        // given as much time as the browser allows
+        extensionLifecycle.exit()
+        consoleBridge.flush()
+    })
+    window.addEventListener("online", () => {
+        swRpc.execute("replayQueuedRequests")
+    })
+    swRpc.execute("replayQueuedRequests")
     
-    const rootElement = document.createElement("div")
-    rootElement.setAttribute("id", "root")
-    document.body.appendChild(rootElement)
+    const root = document.getElementById("root-script")
+    const manifestAttribute = root?.getAttribute("manifest")
+    const programManifest = manifestAttribute
+        ? JSON.parse(manifestAttribute) as ProgramManifest
+        : null
+    if (programManifest) {
+        const missingFiles = await timer.measure("validate-files", () => findMissingProgramFiles(
+            programManifest, 
+            async (url) => {
+                try {
+                    return await controllerRpc.execute("hasFile", url)
+                } catch {
+                    // older app shells can only check by fetching file
+                    const file = await controllerRpc.execute("getFile", url)
+                    await file?.body.cancel().catch(() => {})
+                    return file !== null
+                }
+            }
+        ))
+        if (missingFiles.length > 0) {
+            signalBootFailure(bootFailure(
+                PROGRAM_FILES_MISSING, 
+                `program files are missing from cache: ${missingFiles.join(", ")}`
+            ))
+            throw new Error("program files listed in manifest are not cached")
+        }
+    }
+
+    const rootElement = createRootElement()
     const emptyTransfer = [] as Transferable[]
-    const extensionArguments: MainScriptArguments = {
+    const extensionArguments: SandboxMainScriptArguments = {
         rootElement,
-        initialState: await controllerRpc.execute("getInitialState"),
+        programManifest,
+        initialState: await timer.measure("initial-state", () => {
+            return controllerRpc.execute("getInitialState")
+        }),
         messageAppShell: (name, data = null, transferables = emptyTransfer) => {
             return (controllerRpc.execute as Function)(name, data, transferables)
         },
@@ -53,38 +214,103 @@ const main = async () => {
             return controllerRpc.addResponses(responses, {allowOverwrite: false})
         },
         logPrivateDeps: () => {
-            console.info("private deps", {swRpc, controllerRpc})
+            console.info("private deps", {controllerRpc})
         }
     }
     
-    await controllerRpc.execute("secureContextEstablished")
+    await timer.measure("secure-context", () => {
+        return controllerRpc.execute("secureContextEstablished")
+    })
     // all security should be done before this point
+
+    // boot failures are signalled as fatal errors, anything 
+    // after this point is caused by the extension
+    const crashReporter = createCrashReporter({
+        send: async (report) => {
+            try {
+                await controllerRpc.execute("extensionCrashed", report)
+            } catch {
+                console.error("couldn't report crash to app shell", report)
+            }
+        }
+    })
+    window.addEventListener("error", (event) => {
+        crashReporter.report({
+            kind: "error",
+            severity: "non-fatal",
+            error: event.error ?? event.message,
+            location: errorEventLocation(event)
+        })
+    })
+    window.addEventListener("unhandledrejection", (event) => {
+        crashReporter.report({
+            kind: "unhandled-rejection",
+            severity: "non-fatal",
+            error: event.reason
+        })
+    })
     
-    const root = document.getElementById("root-script")
-    const script = await (async (url: string) => {
+    if (extensionLifecycle.state() === "exited") {
+        console.info("extension exited before it was imported")
+        return
+    }
+    const entry = root?.getAttribute("entry") || ""
+    if (entry.length < 1) {
+        signalBootFailure(bootFailure(MISSING_ENTRY, "extension entry was not specified"))
+        throw new Error("extension entry does not exist")
+    }
+    const script = await timer.measure("import-entry", async () => {
         try {
-            console.info("importing", url)
-            return await import(url) as ExtensionModule
+            console.info("importing", entry)
+            return await import(entry) as ExtensionModule
         } catch (error) {
             console.error("encountered error when importing module", error)
+            signalBootFailure(bootFailure(
+                await importFailureCode(error, () => fetch(entry)), 
+                `couldn't import extension entry "${entry}"`, 
+                error
+            ))
             return null
         }
-    })(root?.getAttribute("entry") || "")
+    })
     
     if (!script) {
-        controllerRpc.execute("signalFatalError", {
-            details: "couldn't find extension entry"
-        })
-        throw new Error("extension entry does not exist")
+        throw new Error("extension entry could not be imported")
     }
     
-    if (!("main" in script)) {
-        controllerRpc.execute("signalFatalError", {
-            details: "'main' function is not exported from entry"
-        })
+    if (typeof script.main !== "function") {
+        signalBootFailure(bootFailure(
+            MISSING_MAIN, 
+            "'main' function is not exported from entry"
+        ))
         throw new Error("no main function exported from module")
     }
-    script.main(extensionArguments)
+    // restarted extensions boot in a fresh document, so
+    // that nothing of the previous run is left behind. The
+    // launch is verified again, so its token must not have expired
+    extensionLifecycle.setRelaunch(() => location.reload())
+    // exit may have been requested while entry was imported
+    if (extensionLifecycle.state() === "exited") {
+        console.info("extension exited before main was called")
+        return
+    }
+    // main may never settle (long running extensions
+    // for example), so timings aren't held back by it
+    setTimeout(sendBootTimings, MAX_BOOT_TIMINGS_WAIT_MILLISECONDS)
+    extensionLifecycle.attach(lifecycleHooks(script))
+    try {
+        const handles = await timer.measure("main", () => script.main(extensionArguments))
+        extensionLifecycle.attach(lifecycleHooks(handles))
+    } catch (error) {
+        extensionLifecycle.mainFailed(error)
+        crashReporter.report({kind: "main", severity: "fatal", error})
+        signalBootFailure(bootFailure(MAIN_THREW, "extension 'main' threw an error", error))
+        // not rethrown, as it would be reported
+        // again as an unhandled rejection
+        console.error("extension main failed", error)
+    }
 }
 
-main()
+// reported once main settles, boot fails, or main 
+// has been running for too long
+main().finally(sendBootTimings)
@@ -1,6 +1,40 @@
 import {wRpc} from "w-worker-rpc"
 import {createFetchHandler} from "../lib/fetchHandler"
+import {compilePolicyRoutes, CompiledPolicyRoute} from "../lib/policyRoutes"
+import {createWorkerCache} from "../lib/workerCache"
+import {clientFileResponse} from "../lib/clientFile"
+import {createRequestQueue} from "../lib/requestQueue"
+import {
+    guardNetworkFetch, 
+    isNetworkPermissionError, 
+    deniedResponse
+} from "../lib/networkPermissions"
+import {createIndexedDbQueueStore} from "./requestQueueStore"
+import {createIndexedDbLaunchTokenKeyStore} from "./launchTokenKeyStore"
+import {createIndexedDbProgramSessionStore} from "./programSessionStore"
+import {createLaunchTokenVerifier} from "../lib/launchTokens"
+import {
+    createProgramSessionRegistry, 
+    summarizeSession, 
+    resetSessionStats,
+    ProgramLogSettings
+} from "../lib/programSessions"
+import {
+    LAUNCH_TOKEN_KEY_DATABASE, 
+    PROGRAM_SESSION_DATABASE,
+    REQUEST_QUEUE_DATABASE, 
+    WORKER_CACHE_NAME
+} from "../config"
+import type {
+    QueuedRequestStatus, 
+    LogLevel, 
+    RequestLogRecord
+} from "../lib/serviceWorkerMeta"
+import {compileLogFilter, isLogLevel, CompiledLogFilter} from "../lib/requestLog"
+import {createRequestMetrics} from "../lib/requestMetrics"
+import {createHarRecorder} from "../lib/harRecorder"
 import type {CallableFunctions as SandboxFunctions} from "../sandboxFunctions"
+import type {ServiceWorkerFunctions} from "../serviceWorkerFunctions"
 
 const sw = globalThis.self as unknown as ServiceWorkerGlobalScope
 
@@ -12,7 +46,226 @@ sw.onactivate = (event) => event.waitUntil((async () => {
     console.info("[🔥 activate] new sandbox sevice worker in control")
 })())
 
-const sandboxToServiceWorkerRpc = {} as const
+const config = {
+    log: false,
+    policyRoutes: [] as ReadonlyArray<CompiledPolicyRoute>,
+    logLevel: "info" as LogLevel,
+    logFilter: null as CompiledLogFilter | null
+}
+
+const workerCache = createWorkerCache({
+    openStore: () => caches.open(WORKER_CACHE_NAME),
+    maxBytes: 100 * 1_024 * 1_024,
+    maxEntryBytes: 20 * 1_024 * 1_024,
+})
+
+const requestQueue = createRequestQueue({
+    store: createIndexedDbQueueStore(REQUEST_QUEUE_DATABASE),
+    networkFetch: fetch,
+    // requests were checked against permissions of their 
+    // program when queued, and are checked again on replay 
+    // if program is still running
+    networkFetchFor: (clientId) => async (input, init) => {
+        const permissions = (await sessions.get(clientId))?.networkPermissions
+        const programFetch = permissions 
+            ? guardNetworkFetch(fetch, permissions) 
+            : fetch
+        // denied requests are answered rather than kept queued
+        return programFetch(input, init).catch((error) => {
+            if (isNetworkPermissionError(error)) {
+                return deniedResponse(error.denial)
+            }
+            throw error
+        })
+    },
+    onStatus: (status, clientId) => reportQueuedRequest(status, clientId)
+})
+
+// registered key is persisted, so programs can still 
+// be launched after the worker restarts
+const launchTokens = createLaunchTokenVerifier({
+    store: createIndexedDbLaunchTokenKeyStore(LAUNCH_TOKEN_KEY_DATABASE)
+})
+
+// browsers stop idle workers, so sessions are persisted
+// and restored once a program makes its next request
+const sessions = createProgramSessionRegistry({
+    store: createIndexedDbProgramSessionStore(PROGRAM_SESSION_DATABASE)
+})
+
+// metrics are only held in memory, so they 
+// are reset if the worker restarts
+const metrics = createRequestMetrics()
+
+const rpcState = {
+    /** 
+     * id of client that sent the message being handled. Rpc 
+     * functions are invoked synchronously when a message 
+     * arrives, so this must be read before any await.
+     */
+    sender: "",
+    /** url of client that sent the message being handled */
+    senderUrl: ""
+}
+
+/** 
+ * Session of calling program, must be called before 
+ * any await (see rpcState)
+ */
+const callerSession = () => sessions.get(rpcState.sender)
+
+/**
+ * Privileged rpcs are only accepted from the root 
+ * document, which only forwards messages from the app 
+ * shell. Launched programs always have a session.
+ * Must be called before any await (see rpcState).
+ */
+const senderIsRootDocument = async () => {
+    const {senderUrl} = rpcState
+    if (await callerSession()) {
+        return false
+    }
+    try {
+        return new URL(senderUrl).pathname === "/"
+    } catch {
+        return false
+    }
+}
+
+type LogSettingsChange = (settings: ProgramLogSettings) => void
+
+/**
+ * Changes log settings of calling program, which start as a 
+ * copy of global settings. Changes global settings if caller 
+ * is not a launched program. Must be called before any await.
+ */
+const changeCallerLogSettings = async (change: LogSettingsChange) => {
+    const session = await callerSession()
+    if (!session) {
+        change(config)
+        return
+    }
+    if (!session.logSettings) {
+        const {log, logLevel, logFilter} = config
+        session.logSettings = {log, logLevel, logFilter}
+    }
+    change(session.logSettings)
+    await sessions.save(session)
+}
+
+const sandboxToServiceWorkerRpc = {
+    setPolicyRoutes: async (routes) => {
+        const compiled = compilePolicyRoutes(routes)
+        const session = await callerSession()
+        if (session) {
+            session.policyRoutes = compiled
+            await sessions.save(session)
+        } else {
+            config.policyRoutes = compiled
+        }
+        return true
+    },
+    clearWorkerCache: async (urls) => {
+        const {sender} = rpcState
+        const session = callerSession()
+        const rootDocument = senderIsRootDocument()
+        const program = await session
+        // same scopes as the fetch handler caches under
+        const scope = program ? program.entry : sender
+        return workerCache.clear(
+            urls || undefined, 
+            await rootDocument ? undefined : scope
+        )
+    },
+    replayQueuedRequests: () => requestQueue.replay(rpcState.sender),
+    registerLaunchTokenKey: async (key) => {
+        if (!await senderIsRootDocument()) {
+            return false
+        }
+        return launchTokens.addKey(key)
+    },
+    resetLaunchTokenKey: async () => {
+        if (!await senderIsRootDocument()) {
+            return false
+        }
+        await launchTokens.reset()
+        return true
+    },
+    getProgramSession: async () => {
+        const session = await callerSession()
+        return session ? summarizeSession(session) : null
+    },
+    setLogging: async (enabled) => {
+        await changeCallerLogSettings((settings) => { 
+            settings.log = enabled === true 
+        })
+        return true
+    },
+    setLogLevel: async (level) => {
+        if (!isLogLevel(level)) {
+            return false
+        }
+        await changeCallerLogSettings((settings) => { settings.logLevel = level })
+        return true
+    },
+    setLogFilter: async (filter) => {
+        const compiled = filter ? compileLogFilter(filter) : null
+        await changeCallerLogSettings((settings) => { settings.logFilter = compiled })
+        return true
+    },
+    getRequestMetrics: async () => {
+        const session = callerSession()
+        const rootDocument = senderIsRootDocument()
+        const program = await session
+        if (program) {
+            return {requests: null, programs: [summarizeSession(program)]}
+        }
+        if (!await rootDocument) {
+            return null
+        }
+        return {requests: metrics.snapshot(), programs: sessions.summaries()}
+    },
+    resetRequestMetrics: async () => {
+        const session = callerSession()
+        const rootDocument = senderIsRootDocument()
+        const program = await session
+        if (program) {
+            resetSessionStats(program)
+            return true
+        }
+        if (!await rootDocument) {
+            return false
+        }
+        metrics.reset()
+        return true
+    },
+    startHarRecording: async (options) => {
+        const session = await callerSession()
+        if (!session) {
+            return false
+        }
+        const recorder = session.recorder || createHarRecorder()
+        recorder.start(options || {})
+        session.recorder = recorder
+        session.harRecording = options || {}
+        await sessions.save(session)
+        return true
+    },
+    stopHarRecording: async () => {
+        const session = await callerSession()
+        const recorder = session?.recorder
+        recorder?.stop()
+        if (session) {
+            session.harRecording = null
+            await sessions.save(session)
+        }
+        return Boolean(recorder)
+    },
+    exportHarRecording: async () => {
+        const recorder = (await callerSession())?.recorder
+        return (recorder || createHarRecorder()).export()
+    }
+} as const satisfies ServiceWorkerFunctions
 
 export type CallableFunctions = typeof sandboxToServiceWorkerRpc
 
@@ -23,7 +276,12 @@ const rpc = new wRpc<SandboxFunctions>({
     messageTarget: {
         postMessage: () => {},
         addEventListener: (_, handler) => {
-            handlerRef = (event) => event.waitUntil(handler(event) as Promise<unknown>)
+            handlerRef = (event) => {
+                const source = event.source as Client | null
+                rpcState.sender = source?.id || ""
+                rpcState.senderUrl = source?.url || ""
+                event.waitUntil(handler(event) as Promise<unknown>)
+            }
             sw.addEventListener("message", handlerRef)
         },
         removeEventListener() {
@@ -33,7 +291,25 @@ const rpc = new wRpc<SandboxFunctions>({
     state: {}
 })
 
-const config = {log: false}
+const reportQueuedRequest = async (status: QueuedRequestStatus, clientId: string) => {
+    // statuses are only reported to the program that made the
+    // request, they are dropped if it was closed before replay
+    const client = await sw.clients.get(clientId)
+    if (!client) {
+        return
+    }
+    await rpc.executeWithSource("notifyQueuedRequest", client, status)
+}
+
+const forwardLogRecord = async (record: RequestLogRecord) => {
+    const client = record.clientId.length > 0
+        ? await sw.clients.get(record.clientId)
+        : null
+    if (!client) {
+        return
+    }
+    await rpc.executeWithSource("notifyLogRecord", client, record)
+}
 
 const DEV_MODE = sw.location.origin.startsWith("http://locahost")
 
@@ -51,24 +327,7 @@ const fetchHandler = createFetchHandler({
                 return null
             }
             const file = await rpc.executeWithSource("getFile", client, url)
-            if (typeof file !== "object" || file === null) {
-                return null
-            }
-            if (
-                !(file.body instanceof ReadableStream)
-                || typeof file.type !== "string"
-                || typeof file.length !== "number"
-            ) {
-                return null
-            }
-            return new Response(file.body, {
-                status: 200,
-                statusText: "OK",
-                headers: {
-                    "content-type": file.type,
-                    "content-length": file.length
-                }
-            })
+            return clientFileResponse(file)
         },
     },
     inMemoryDocumentHeaders: {
@@ -78,8 +337,38 @@ const fetchHandler = createFetchHandler({
         "Vary": "origin",
         ...accessHeaders,
     },
-    log: console.info,
+    log: (message, record) => {
+        console.info(message)
+        forwardLogRecord(record).catch(() => {})
+    },
     config,
+    workerCache,
+    requestQueue,
+    launchTokens,
+    sessions,
+    metrics,
+    getActiveClientIds: async () => {
+        const clients = await sw.clients.matchAll({includeUncontrolled: true})
+        return clients.map((client) => client.id)
+    },
+    getClientUrl: async (clientId) => {
+        const client = await sw.clients.get(clientId)
+        return client?.url || null
+    },
+    onStaleFile: async (notice, clientId) => {
+        const client = await sw.clients.get(clientId)
+        if (!client) {
+            return
+        }
+        await rpc.executeWithSource("notifyStaleFile", client, notice)
+    },
+    onNetworkDenied: async (denial, clientId) => {
+        const client = await sw.clients.get(clientId)
+        if (!client) {
+            return
+        }
+        await rpc.executeWithSource("notifyNetworkDenied", client, denial)
+    },
 })
 
 sw.onfetch = (event) => event.respondWith(fetchHandler(event))
@@ -0,0 +1,44 @@
+import type {LaunchTokenKeyStore} from "../lib/launchTokens"
+
+const STORE_NAME = "keys"
+const KEY_ID = "launch-token-key"
+
+const promisify = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+})
+
+const openDatabase = (name: string) => {
+    const request = indexedDB.open(name, 1)
+    request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME)
+    }
+    return promisify(request)
+}
+
+export const createIndexedDbLaunchTokenKeyStore = (databaseName: string): LaunchTokenKeyStore => {
+    const objectStore = async (mode: IDBTransactionMode) => {
+        const database = await openDatabase(databaseName)
+        // key is only read once per worker start, so
+        // connection is not kept open
+        const transaction = database.transaction(STORE_NAME, mode)
+        transaction.oncomplete = () => database.close()
+        transaction.onabort = () => database.close()
+        return transaction.objectStore(STORE_NAME)
+    }
+    return {
+        load: async () => {
+            const store = await objectStore("readonly")
+            const key = await promisify(store.get(KEY_ID)) as JsonWebKey | undefined
+            return key || null
+        },
+        save: async (key) => {
+            const store = await objectStore("readwrite")
+            return await promisify(store.put(key, KEY_ID))
+        },
+        clear: async () => {
+            const store = await objectStore("readwrite")
+            return await promisify(store.delete(KEY_ID))
+        }
+    }
+}
@@ -0,0 +1,53 @@
+import type {ProgramSessionStore, StoredProgramSession} from "../lib/programSessions"
+
+const STORE_NAME = "sessions"
+
+const promisify = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+})
+
+const openDatabase = (name: string) => {
+    const request = indexedDB.open(name, 1)
+    request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, {keyPath: "clientId"})
+    }
+    return promisify(request)
+}
+
+export const createIndexedDbProgramSessionStore = (databaseName: string): ProgramSessionStore => {
+    let connection: Promise<IDBDatabase> | null = null
+    const objectStore = async (mode: IDBTransactionMode) => {
+        if (!connection) {
+            connection = openDatabase(databaseName).then((database) => {
+                database.onversionchange = () => {
+                    database.close()
+                    connection = null
+                }
+                return database
+            })
+            connection.catch(() => { connection = null })
+        }
+        const database = await connection
+        return database.transaction(STORE_NAME, mode).objectStore(STORE_NAME)
+    }
+    return {
+        load: async (clientId) => {
+            const store = await objectStore("readonly")
+            const session = await promisify(store.get(clientId)) as StoredProgramSession | undefined
+            return session || null
+        },
+        save: async (session) => {
+            const store = await objectStore("readwrite")
+            return await promisify(store.put(session))
+        },
+        remove: async (clientId) => {
+            const store = await objectStore("readwrite")
+            return await promisify(store.delete(clientId))
+        },
+        clientIds: async () => {
+            const store = await objectStore("readonly")
+            return await promisify(store.getAllKeys()) as string[]
+        }
+    }
+}
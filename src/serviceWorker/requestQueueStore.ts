@@ -0,0 +1,60 @@
+import type {QueueStore, QueuedRequest} from "../lib/requestQueue"
+
+const STORE_NAME = "requests"
+const CLIENT_INDEX = "clientId"
+
+const promisify = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+})
+
+const openDatabase = (name: string) => {
+    const request = indexedDB.open(name, 2)
+    request.onupgradeneeded = (event) => {
+        const store = event.oldVersion < 1
+            ? request.result.createObjectStore(STORE_NAME, {
+                keyPath: "id",
+                autoIncrement: true
+            })
+            : request.transaction!.objectStore(STORE_NAME)
+        store.createIndex(CLIENT_INDEX, "clientId")
+    }
+    return promisify(request)
+}
+
+export const createIndexedDbQueueStore = (databaseName: string): QueueStore => {
+    let connection: Promise<IDBDatabase> | null = null
+    const objectStore = async (mode: IDBTransactionMode) => {
+        if (!connection) {
+            connection = openDatabase(databaseName).then((database) => {
+                database.onversionchange = () => {
+                    database.close()
+                    connection = null
+                }
+                return database
+            })
+            connection.catch(() => { connection = null })
+        }
+        const database = await connection
+        return database.transaction(STORE_NAME, mode).objectStore(STORE_NAME)
+    }
+    return {
+        add: async (entry) => {
+            const store = await objectStore("readwrite")
+            // auto-incremented keys keep entries in insertion order
+            return await promisify(store.add(entry)) as number
+        },
+        all: async () => {
+            const store = await objectStore("readonly")
+            return await promisify(store.getAll()) as QueuedRequest[]
+        },
+        count: async (clientId) => {
+            const store = await objectStore("readonly")
+            return await promisify(store.index(CLIENT_INDEX).count(clientId))
+        },
+        remove: async (id) => {
+            const store = await objectStore("readwrite")
+            return await promisify(store.delete(id))
+        }
+    }
+}
@@ -1,3 +1,71 @@
-const sandboxToServiceWorkerRpc = {} as const
+import type {PolicyRoute} from "./lib/policyRoutes"
+import type {ProgramSessionSummary} from "./lib/programSessions"
+import type {LogLevel} from "./lib/serviceWorkerMeta"
+import type {LogFilter} from "./lib/requestLog"
+import type {ServiceWorkerMetrics} from "./lib/requestMetrics"
+import type {HarDocument, HarRecordingOptions} from "./lib/harRecorder"
 
-export type ServiceWorkerFunctions = typeof sandboxToServiceWorkerRpc
+export type ServiceWorkerFunctions = {
+    /** 
+     * applies to the calling program only, or to all
+     * programs without their own routes if caller is not 
+     * a launched program
+     */
+    setPolicyRoutes: (routes: PolicyRoute[]) => Promise<boolean>
+    /** 
+     * clears every cached file if urls are not specified. Only 
+     * files cached for the calling program (or client) are 
+     * cleared, unless caller is the root document
+     */
+    clearWorkerCache: (urls: string[] | null) => Promise<boolean>
+    /** 
+     * replays requests queued by the calling client only,
+     * resolves to the number of requests that were replayed 
+     */
+    replayQueuedRequests: (_: null) => Promise<number>
+    /** 
+     * registers an app shell public key (ECDSA P-256) 
+     * that program launch tokens are verified against
+     */
+    registerLaunchTokenKey: (key: JsonWebKey) => Promise<boolean>
+    /** 
+     * removes registered key, so that another can be registered.
+     * Only accepted from the root document (app shell)
+     */
+    resetLaunchTokenKey: (_: null) => Promise<boolean>
+    /** session of calling program, null if caller is not a launched program */
+    getProgramSession: (_: null) => Promise<ProgramSessionSummary | null>
+    /** 
+     * log records are forwarded to the client that made
+     * the request, as well as logged in the service worker console.
+     * Log settings apply to the calling program only, or to all 
+     * programs without their own settings if caller is not 
+     * a launched program
+     */
+    setLogging: (enabled: boolean) => Promise<boolean>
+    /** resolves to false if level is unknown */
+    setLogLevel: (level: LogLevel) => Promise<boolean>
+    /** removes filter if null */
+    setLogFilter: (filter: LogFilter | null) => Promise<boolean>
+    /** 
+     * counters since worker started or metrics were last reset.
+     * Worker wide counters and stats of every program are only 
+     * returned to the root document, programs recieve their own stats.
+     * Resolves to null for other callers
+     */
+    getRequestMetrics: (_: null) => Promise<ServiceWorkerMetrics | null>
+    /** 
+     * resets stats of calling program, or worker wide counters
+     * if caller is the root document
+     */
+    resetRequestMetrics: (_: null) => Promise<boolean>
+    /** 
+     * records requests of calling program only, discarding 
+     * previously recorded requests. Returns false if caller is 
+     * not a launched program
+     */
+    startHarRecording: (options: HarRecordingOptions) => Promise<boolean>
+    stopHarRecording: (_: null) => Promise<boolean>
+    /** requests of calling program recorded so far, as a HAR 1.2 document */
+    exportHarRecording: (_: null) => Promise<HarDocument>
+}